@@ -1,105 +1,537 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Transaction } from './types';
+import { Transaction, Category, MonthlyBudget, Account, RecurringRule, AppSettings, BackupData, Snapshot } from './types';
 import * as db from './services/db';
-import Summary from './components/Summary';
+import { buildInstallmentSeries } from './services/installments';
+import { getInvoiceSummaries, getTransactionsByInvoiceMonth, filterByInvoiceMonth, InvoiceSummary, isCreditCard } from './services/billing';
+import * as recurring from './services/recurring';
+import { getSpendingPace } from './services/pace';
+import { buildTransactionsCsv } from './services/csv';
+import { TransactionFilter, EMPTY_FILTER, applyFilter, countActiveFilters } from './services/filters';
+import { parseBackup, readBackup, formatBackupErrors } from './services/backup';
+import { MergePlan } from './services/merge';
+import { isEncryptedBackup, encryptBackup, decryptBackup } from './services/backupCrypto';
+import { MAX_IOF_RATE, isValidIofRate, parseDecimalInput, formatDecimal } from './services/money';
+import Summary, { CategoryTotal, AccountTotal } from './components/Summary';
 import TransactionForm from './components/TransactionForm';
 import TransactionList from './components/TransactionList';
-import { ChevronLeft, ChevronRight, Calendar, Settings, Download, Upload, Trash, Database } from 'lucide-react';
+import AccountSettings from './components/AccountSettings';
+import RecurringManager from './components/RecurringManager';
+import PendingOccurrences from './components/PendingOccurrences';
+import RefundDialog from './components/RefundDialog';
+import SearchPanel from './components/SearchPanel';
+import AnnualOverview from './components/AnnualOverview';
+import CsvExport, { CsvScope } from './components/CsvExport';
+import StatementImport from './components/StatementImport';
+import RestoreDialog from './components/RestoreDialog';
+import PassphraseDialog from './components/PassphraseDialog';
+import RestorePoints from './components/RestorePoints';
+import TrashBin from './components/TrashBin';
+import UndoToast from './components/UndoToast';
+import OfxImport from './components/OfxImport';
+import { ChevronLeft, ChevronRight, Calendar, Settings, Download, Upload, Trash, Database, Search, BarChart3, FileUp, FileDown, Lock, History, Trash2 } from 'lucide-react';
+
+const getLocalMonth = () => {
+  const now = new Date();
+  // Ajuste para garantir timezone local ao inicializar o mês
+  const local = new Date(now.getTime() - (now.getTimezoneOffset() * 60000)).toISOString();
+  return local.slice(0, 7); // YYYY-MM
+};
+
+// Dispara o download de um arquivo gerado no navegador
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Format: GestorGastos_YYYY-MM-DD_HH-mm.json (ou _protegido.json quando criptografado)
+const getBackupFileName = (encrypted: boolean) => {
+  const now = new Date();
+  const dateStr = now.toLocaleDateString('sv'); // YYYY-MM-DD
+  const timeStr = now.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' }).replace(':', '-');
+  return `GestorGastos_${dateStr}_${timeStr}${encrypted ? '_protegido' : ''}.json`;
+};
 
 const App: React.FC = () => {
   // State
-  const [currentMonth, setCurrentMonth] = useState<string>(() => {
-    const now = new Date();
-    // Ajuste para garantir timezone local ao inicializar o mês
-    const local = new Date(now.getTime() - (now.getTimezoneOffset() * 60000)).toISOString();
-    return local.slice(0, 7); // YYYY-MM
-  });
+  const [currentMonth, setCurrentMonth] = useState<string>(getLocalMonth);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [budget, setBudget] = useState<number>(0);
+  const [budget, setBudget] = useState<MonthlyBudget>({ month: currentMonth, limit: 0, categoryLimits: {} });
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [invoices, setInvoices] = useState<InvoiceSummary[]>([]);
+  const [recurringRules, setRecurringRules] = useState<RecurringRule[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(db.DEFAULT_SETTINGS);
+  const [pendingOccurrences, setPendingOccurrences] = useState<recurring.PendingOccurrence[]>([]);
+  // PURCHASE: crédito pela data da compra; INVOICE: crédito pelo mês da fatura
+  const [viewMode, setViewMode] = useState<'PURCHASE' | 'INVOICE'>('PURCHASE');
   const [isLoading, setIsLoading] = useState(true);
+  // blocked/outdated: outra aba ou janela do app está numa versão diferente do banco
+  const [connectionState, setConnectionState] = useState<db.ConnectionState>('ready');
   
   // Edit State
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const topRef = useRef<HTMLDivElement>(null);
 
+  // Refund State
+  const [refundTarget, setRefundTarget] = useState<{ transaction: Transaction; remaining: number } | null>(null);
+
+  // Filtros do histórico (opcionalmente refletidos no resumo)
+  const [filter, setFilter] = useState<TransactionFilter>(EMPTY_FILTER);
+  const [filterSummary, setFilterSummary] = useState(false);
+
+  // Search State
+  const [showSearch, setShowSearch] = useState(false);
+
+  // Annual Overview State
+  const [showAnnual, setShowAnnual] = useState(false);
+
   // Settings UI State
   const [showSettings, setShowSettings] = useState(false);
+  const [showStatementImport, setShowStatementImport] = useState(false);
+  const [showOfxImport, setShowOfxImport] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Backup lido e validado, aguardando a escolha entre substituir e mesclar
+  const [pendingRestore, setPendingRestore] = useState<{ data: BackupData; fileName: string } | null>(null);
+  // Backup criptografado aguardando a senha
+  const [pendingDecrypt, setPendingDecrypt] = useState<{ text: string; fileName: string; error?: string } | null>(null);
+  const [showEncryptBackup, setShowEncryptBackup] = useState(false);
+  const [showRestorePoints, setShowRestorePoints] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  // Última exclusão ou edição, desfeita pelo aviso que aparece por alguns segundos
+  const [undoAction, setUndoAction] = useState<{ id: string; message: string; undo: () => Promise<void> } | null>(null);
 
   // Derived state
-  const totalSpent = transactions.reduce((acc, t) => acc + t.amount, 0);
-  
-  const spentDebit = transactions
-    .filter(t => t.method === 'DEBIT')
-    .reduce((acc, t) => acc + t.amount, 0);
+  const isSummaryFiltered = filterSummary && countActiveFilters(filter) > 0;
+  const summaryTransactions = isSummaryFiltered ? applyFilter(transactions, filter) : transactions;
+
+  // Receitas ficam fora dos totais de gasto, do limite e das categorias
+  const expenses = summaryTransactions.filter(t => t.kind !== 'INCOME');
 
-  const spentCredit = transactions
-    .filter(t => t.method === 'CREDIT')
+  const totalIncome = summaryTransactions
+    .filter(t => t.kind === 'INCOME')
     .reduce((acc, t) => acc + t.amount, 0);
 
+  const totalSpent = expenses.reduce((acc, t) => acc + t.amount, 0);
+  
+  // Um bloco por conta com movimento no período
+  const accountTotals: AccountTotal[] = accounts
+    .map(account => ({
+      account,
+      total: expenses
+        .filter(t => t.accountId === account.id)
+        .reduce((acc, t) => acc + t.amount, 0),
+    }))
+    .filter(a => a.total !== 0);
+
+  const categoryTotals: CategoryTotal[] = categories
+    .map(category => ({
+      category,
+      total: expenses
+        .filter(t => (t.category || db.UNCATEGORIZED_ID) === category.id)
+        .reduce((acc, t) => acc + t.amount, 0),
+      limit: budget.categoryLimits?.[category.id] || 0
+    }))
+    .sort((a, b) => b.total - a.total);
+
+  const pace = getSpendingPace(expenses, currentMonth, new Date().toLocaleDateString('sv'));
+
   // Load data
   const loadData = useCallback(async () => {
     setIsLoading(true);
     try {
-      const [txs, limit] = await Promise.all([
-        db.getTransactionsByMonth(currentMonth),
-        db.getMonthlyBudget(currentMonth)
+      // Ocorrências recorrentes precisam existir antes de buscar o mês
+      const pending = await recurring.materializeRecurring(currentMonth, getLocalMonth());
+      const accountList = await db.getAccounts();
+      const cardList = accountList.filter(isCreditCard);
+      const today = new Date().toLocaleDateString('sv');
+      const [txs, monthBudget, cats, invoiceSummaries, rules, appSettings] = await Promise.all([
+        viewMode === 'INVOICE'
+          ? getTransactionsByInvoiceMonth(currentMonth, cardList)
+          : db.getTransactionsByMonth(currentMonth),
+        db.getMonthlyBudget(currentMonth),
+        db.getCategories(),
+        getInvoiceSummaries(cardList, today),
+        db.getRecurringRules(),
+        db.getSettings()
       ]);
       setTransactions(txs);
-      setBudget(limit);
+      setBudget(monthBudget);
+      setCategories(cats);
+      setAccounts(accountList);
+      setInvoices(invoiceSummaries);
+      setRecurringRules(rules);
+      setPendingOccurrences(pending);
+      setSettings(appSettings);
     } catch (error) {
       console.error("Failed to load data", error);
     } finally {
       setIsLoading(false);
     }
-  }, [currentMonth]);
+  }, [currentMonth, viewMode]);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
+  // Gravações feitas em qualquer parte do app, nesta ou em outra aba, chegam como notificações do
+  // banco: cada uma atualiza só o que depende dela, sem recarregar o mês nem mostrar o carregamento
+  useEffect(() => {
+    const cards = accounts.filter(isCreditCard);
+    const today = new Date().toLocaleDateString('sv');
+    const belongsToView = (t: Transaction) => viewMode === 'INVOICE'
+      ? filterByInvoiceMonth([t], currentMonth, cards).length > 0
+      : t.date.startsWith(currentMonth);
+    const refresh = <T,>(query: Promise<T>, apply: (result: T) => void) =>
+      query.then(apply).catch(error => console.error('Failed to refresh data', error));
+    // Só consulta: materializar no meio de uma sequência de gravações poderia recriar uma ocorrência apagada
+    const refreshPending = () => refresh(recurring.getPendingOccurrences(currentMonth, getLocalMonth()), setPendingOccurrences);
+
+    return db.subscribe(change => {
+      switch (change.type) {
+        case 'transactions':
+          setTransactions(current => db.applyTransactionChange(current, change, belongsToView));
+          refresh(getInvoiceSummaries(cards, today), setInvoices);
+          if (change.saved.some(t => t.recurringRuleId)) refreshPending();
+          break;
+        case 'budgets':
+          if (change.months.includes(currentMonth)) refresh(db.getMonthlyBudget(currentMonth), setBudget);
+          break;
+        case 'categories':
+          refresh(db.getCategories(), setCategories);
+          break;
+        case 'accounts':
+          // setAccounts refaz esta inscrição; fatura e visão por fatura dependem do fechamento dos cartões
+          refresh(db.getAccounts(), accountList => {
+            const cardList = accountList.filter(isCreditCard);
+            setAccounts(accountList);
+            refresh(getInvoiceSummaries(cardList, today), setInvoices);
+            if (viewMode === 'INVOICE') refresh(getTransactionsByInvoiceMonth(currentMonth, cardList), setTransactions);
+          });
+          break;
+        case 'recurring':
+          refresh(db.getRecurringRules(), setRecurringRules);
+          refreshPending();
+          break;
+        case 'settings':
+          refresh(db.getSettings(), setSettings);
+          break;
+        case 'reset':
+          // Pode ter vindo de outra aba: a edição e o desfazer em andamento se referem aos dados antigos
+          setEditingTransaction(null);
+          setUndoAction(null);
+          loadData();
+          break;
+      }
+    });
+  }, [accounts, currentMonth, viewMode, loadData]);
+
+  useEffect(() => db.subscribeConnection(setConnectionState), []);
+
+  // Manutenção na abertura: ponto de restauração diário e limpeza da lixeira expirada
+  useEffect(() => {
+    db.createDailySnapshot().catch(error => console.error('Failed to create daily snapshot', error));
+    db.purgeExpiredTrash().catch(error => console.error('Failed to purge trash', error));
+  }, []);
+
+  const dismissUndo = useCallback(() => setUndoAction(null), []);
+
+  // Cada ação ganha um id próprio: duas seguidas com a mesma mensagem ainda reiniciam o aviso
+  const showUndo = (action: { message: string; undo: () => Promise<void> }) =>
+    setUndoAction({ ...action, id: crypto.randomUUID() });
+
+  const handleUndo = async () => {
+    if (!undoAction) return;
+    try {
+      await undoAction.undo();
+    } catch (error) {
+      alert('Não foi possível desfazer: ' + error);
+    }
+  };
+
+  // A cotação usada fica sugerida para os próximos lançamentos na mesma moeda
+  const rememberExchangeRate = async ({ originalCurrency, exchangeRate }: Omit<Transaction, 'id' | 'createdAt'>) => {
+    if (!originalCurrency || !exchangeRate || settings.exchangeRates[originalCurrency] === exchangeRate) return;
+    await db.setSetting('exchangeRates', { ...settings.exchangeRates, [originalCurrency]: exchangeRate });
+  };
+
   // Handlers CRUD
   const handleAddTransaction = async (data: Omit<Transaction, 'id' | 'createdAt'>) => {
-    const newTransaction: Transaction = {
-      ...data,
-      id: crypto.randomUUID(),
-      createdAt: Date.now(),
-    };
-    await db.addTransaction(newTransaction);
-    loadData(); 
+    const { installmentCount, ...rest } = data;
+    await rememberExchangeRate(rest);
+
+    if (installmentCount && installmentCount > 1) {
+      await db.addTransactions(buildInstallmentSeries(rest, installmentCount, crypto.randomUUID(), Date.now()));
+    } else {
+      const newTransaction: Transaction = {
+        ...rest,
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+      };
+      await db.addTransaction(newTransaction);
+    }
   };
 
-  const handleUpdateTransaction = async (id: string, data: Omit<Transaction, 'id' | 'createdAt'>) => {
+  const handleUpdateTransaction = async (
+    id: string,
+    data: Omit<Transaction, 'id' | 'createdAt'>,
+    scope?: recurring.RecurrenceScope
+  ) => {
     // Preserve createdAt from original if possible, otherwise use now.
     // Since we pass data without id/created at from form, we need to reconstruct.
-    const original = transactions.find(t => t.id === id);
-    const updatedTransaction: Transaction = {
-      id,
-      createdAt: original ? original.createdAt : Date.now(),
-      ...data
-    };
-    
-    await db.updateTransaction(updatedTransaction);
+    // Parcelas podem estar em outro mês, por isso o registro em edição tem prioridade.
+    const original = editingTransaction?.id === id ? editingTransaction : transactions.find(t => t.id === id);
+    const createdAt = original ? original.createdAt : Date.now();
+    const { installmentCount, ...rest } = data;
+    const isInstallment = !!installmentCount && installmentCount > 1;
+    await rememberExchangeRate(rest);
+    // Cada caminho guarda como desfazer a própria edição
+    let undo: (() => Promise<void>) | undefined;
+
+    if (original?.recurringRuleId && original.recurringMonth && scope === 'FUTURE') {
+      const ruleId = original.recurringRuleId;
+      const fromMonth = original.recurringMonth;
+      const previousRule = recurringRules.find(r => r.id === ruleId);
+      const previousOccurrences = (await db.getTransactionsByRecurringRule(ruleId))
+        .filter(t => t.recurringMonth && t.recurringMonth >= fromMonth);
+      const newRuleId = await recurring.applyToFutureOccurrences(ruleId, fromMonth, rest);
+      undo = async () => {
+        if (newRuleId && newRuleId !== ruleId) {
+          const created = await db.getTransactionsByRecurringRule(newRuleId);
+          await db.deleteTransactions(created.map(t => t.id));
+          await db.deleteRecurringRule(newRuleId);
+        }
+        if (previousRule) await db.saveRecurringRule(previousRule);
+        await db.putTransactions(previousOccurrences);
+      };
+    } else if (original?.installmentGroup) {
+      // Editar uma parcela reescreve a série inteira (mantendo os ids por número de parcela)
+      const groupId = original.installmentGroup;
+      const series = await db.getInstallmentSeries(groupId);
+      const updated = isInstallment
+        ? buildInstallmentSeries(rest, installmentCount!, groupId, createdAt, series)
+        : [{ id, createdAt, ...rest }]; // Deixou de ser parcelado: vira um lançamento único
+      await db.replaceInstallmentSeries(groupId, updated);
+      undo = () => db.replaceInstallmentSeries(groupId, series);
+    } else if (isInstallment) {
+      // Lançamento à vista passou a ser parcelado: ele vira a parcela 1
+      const groupId = crypto.randomUUID();
+      const existing = [{ ...(original as Transaction), id, createdAt, installmentNumber: 1 }];
+      await db.replaceInstallmentSeries(groupId, buildInstallmentSeries(rest, installmentCount!, groupId, createdAt, existing));
+      if (original) undo = () => db.replaceInstallmentSeries(groupId, [original]);
+    } else {
+      // "Somente esta": a ocorrência continua vinculada à regra, só com outros valores.
+      // O id do banco também fica, senão reimportar o mesmo extrato duplicaria o lançamento.
+      const updatedTransaction: Transaction = {
+        id,
+        createdAt,
+        ...rest,
+        recurringRuleId: original?.recurringRuleId,
+        recurringMonth: original?.recurringMonth,
+        refundOf: original?.refundOf,
+        externalId: original?.externalId
+      };
+      await db.updateTransaction(updatedTransaction);
+      if (original) undo = () => db.putTransactions([original]);
+    }
+
     setEditingTransaction(null);
-    loadData();
+    if (undo) showUndo({ message: `"${rest.description}" foi alterado`, undo });
   };
 
+  // Estornos não fazem sentido sem a compra original, então são apagados junto
+  const withRefundIds = async (ids: string[]): Promise<string[]> => {
+    const refunds = await Promise.all(ids.map(id => db.getRefunds(id)));
+    return [...ids, ...refunds.flat().map(r => r.id)];
+  };
+
+  // Nada é apagado de vez: vai para a lixeira e o aviso permite desfazer na hora
   const handleDeleteTransaction = async (id: string) => {
-    if (!window.confirm('Tem certeza que deseja apagar este gasto?')) return;
-    await db.deleteTransaction(id);
+    const target = transactions.find(t => t.id === id);
+
+    if (target?.installmentGroup && target.installmentNumber) {
+      const { installmentNumber, installmentCount } = target;
+      const series = await db.getInstallmentSeries(target.installmentGroup);
+      const ids = await withRefundIds(
+        series.filter(t => (t.installmentNumber || 0) >= installmentNumber).map(t => t.id)
+      );
+      await db.trashTransactions(ids);
+      if (editingTransaction?.installmentGroup === target.installmentGroup) setEditingTransaction(null);
+      showUndo({
+        message: installmentNumber === 1
+          ? `Compra parcelada "${target.description}" apagada (${installmentCount} parcelas)`
+          : `Parcelas ${installmentNumber} a ${installmentCount} de "${target.description}" apagadas`,
+        undo: () => db.restoreFromTrash(ids),
+      });
+      return;
+    }
+
+    const ids = await withRefundIds([id]);
+    await db.trashTransactions(ids);
+    // Ocorrência apagada não deve ser gerada novamente ao reabrir o mês
+    if (target?.recurringRuleId && target.recurringMonth) {
+      await recurring.skipOccurrence(target.recurringRuleId, target.recurringMonth);
+    }
     if (editingTransaction?.id === id) setEditingTransaction(null);
-    loadData();
+    const suffix = ids.length > 1 ? ` com ${ids.length - 1} estorno(s)` : '';
+    showUndo({
+      message: `"${target?.description ?? 'Lançamento'}" foi para a lixeira${suffix}`,
+      undo: () => db.restoreFromTrash(ids),
+    });
   };
 
-  const handleEditClick = (t: Transaction) => {
-    setEditingTransaction(t);
+  // Volta o lançamento em edição para uma versão do histórico de alterações
+  const handleRevertTransaction = async (version: Transaction) => {
+    // O registro gravado, e não o do formulário: numa parcela, o formulário tem o total da compra
+    const current = await db.getTransaction(version.id);
+    await db.revertTransaction(version);
+    setEditingTransaction(null);
+    if (current) {
+      showUndo({
+        message: `"${version.description}" voltou para a versão anterior`,
+        undo: () => db.putTransactions([current]),
+      });
+    }
+  };
+
+  const handleRefundClick = async (t: Transaction) => {
+    const refunds = await db.getRefunds(t.id);
+    // Estornos têm amount negativo: somar devolve o valor ainda não estornado
+    const remaining = t.amount + refunds.reduce((acc, r) => acc + r.amount, 0);
+    if (remaining <= 0) {
+      alert('Esta compra já foi totalmente estornada.');
+      return;
+    }
+    setRefundTarget({ transaction: t, remaining });
+  };
+
+  const handleConfirmRefund = async (amount: number, date: string) => {
+    if (!refundTarget) return;
+    const original = refundTarget.transaction;
+    const refund: Transaction = {
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      description: `Estorno - ${original.description}`,
+      amount: -amount,
+      accountId: original.accountId,
+      method: original.method,
+      category: original.category,
+      date,
+      time: new Date().toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' }),
+      refundOf: original.id,
+    };
+    await db.addTransaction(refund);
+    setRefundTarget(null);
+  };
+
+  const handleEditClick = async (t: Transaction) => {
+    if (t.installmentGroup) {
+      // Edita a compra como um todo: valor total e data da primeira parcela
+      const series = await db.getInstallmentSeries(t.installmentGroup);
+      const first = series[0] || t;
+      setEditingTransaction({
+        ...first,
+        amount: first.purchaseAmount ?? series.reduce((acc, s) => acc + s.amount, 0),
+        ...(first.originalAmount !== undefined && {
+          originalAmount: series.reduce((acc, s) => acc + (s.originalAmount ?? 0), 0),
+        }),
+      });
+    } else {
+      setEditingTransaction(t);
+    }
     // Scroll to top smoothly
     topRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  const handleAddCategory = async (data: Omit<Category, 'id' | 'createdAt'>): Promise<Category> => {
+    const newCategory: Category = {
+      ...data,
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+    };
+    await db.addCategory(newCategory);
+    setCategories(await db.getCategories());
+    return newCategory;
+  };
+
   const handleUpdateLimit = async (newLimit: number) => {
-    await db.setMonthlyBudget({ month: currentMonth, limit: newLimit });
-    setBudget(newLimit);
+    const updated = { ...budget, month: currentMonth, limit: newLimit };
+    await db.setMonthlyBudget(updated);
+    setBudget(updated);
+  };
+
+  const handleUpdateCategoryLimits = async (categoryLimits: Record<string, number>) => {
+    const updated = { ...budget, month: currentMonth, categoryLimits };
+    await db.setMonthlyBudget(updated);
+    setBudget(updated);
+  };
+
+  // Recorrentes
+  const handleSaveRecurringRule = async (rule: RecurringRule) => {
+    await db.saveRecurringRule(rule);
+  };
+
+  const handleDeleteRecurringRule = async (rule: RecurringRule) => {
+    if (!window.confirm(`Excluir a recorrência "${rule.description}"? Os lançamentos já gerados são mantidos.`)) return;
+    await db.deleteRecurringRule(rule.id);
+  };
+
+  const handleConfirmOccurrence = async (occurrence: recurring.PendingOccurrence) => {
+    await recurring.confirmOccurrence(occurrence);
+  };
+
+  const handleSkipOccurrence = async (occurrence: recurring.PendingOccurrence) => {
+    await recurring.skipOccurrence(occurrence.rule.id, occurrence.month);
+  };
+
+  const handleToggleBalanceMode = async () => {
+    const balanceMode = !settings.balanceMode;
+    await db.setSetting('balanceMode', balanceMode);
+    setSettings({ ...settings, balanceMode });
+  };
+
+  // O campo altera o estado a cada tecla; grava ao sair do campo
+  const handleSaveAuthorName = async () => {
+    const authorName = settings.authorName.trim();
+    await db.setSetting('authorName', authorName);
+    setSettings({ ...settings, authorName });
+  };
+
+  const handleSaveIofRate = async (input: HTMLInputElement) => {
+    const percent = parseDecimalInput(input.value);
+    if (!isValidIofRate(percent / 100)) {
+      alert(`O IOF deve ficar entre 0% e ${MAX_IOF_RATE * 100}%.`);
+      input.value = formatDecimal(settings.iofRate * 100, 2);
+      return;
+    }
+    await db.setSetting('iofRate', percent / 100);
+  };
+
+  const handleSaveAccount = async (account: Account) => {
+    await db.saveAccount(account);
+  };
+
+  // Resultado da busca: abre o mês do lançamento já em edição (estornos não são editáveis)
+  const handleSearchSelect = (t: Transaction) => {
+    setShowSearch(false);
+    setViewMode('PURCHASE');
+    setCurrentMonth(t.date.slice(0, 7));
+    if (t.refundOf) {
+      setEditingTransaction(null);
+    } else {
+      handleEditClick(t);
+    }
+  };
+
+  const handleAnnualSelectMonth = (month: string) => {
+    setShowAnnual(false);
+    setCurrentMonth(month);
+    setEditingTransaction(null);
   };
 
   // Month Navigation
@@ -116,8 +548,7 @@ const App: React.FC = () => {
     if (window.confirm('PERIGO: Isso apagará TODOS os seus dados e registros de todos os meses. Tem certeza absoluta?')) {
       if (window.confirm('Última chance: Todos os dados serão perdidos. Confirmar limpeza?')) {
         await db.clearAllData();
-        loadData();
-        alert('Todos os dados foram apagados.');
+        alert('Todos os dados foram apagados. Se precisar, volte ao estado anterior em "Pontos de Restauração".');
       }
     }
   };
@@ -127,27 +558,63 @@ const App: React.FC = () => {
       const data = await db.exportDatabase();
       const jsonString = JSON.stringify(data, null, 2);
       const blob = new Blob([jsonString], { type: 'application/json' });
-      
-      const now = new Date();
-      // Format: GestorGastos_YYYY-MM-DD_HH-mm.json
-      const dateStr = now.toLocaleDateString('sv'); // YYYY-MM-DD
-      const timeStr = now.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' }).replace(':', '-');
-      
-      const filename = `GestorGastos_${dateStr}_${timeStr}.json`;
-      
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, getBackupFileName(false));
     } catch (e) {
       alert('Erro ao criar backup: ' + e);
     }
   };
 
+  const handleEncryptedBackup = async (passphrase: string) => {
+    try {
+      const data = await db.exportDatabase();
+      const envelope = await encryptBackup(JSON.stringify(data), passphrase);
+      downloadBlob(new Blob([envelope], { type: 'application/json' }), getBackupFileName(true));
+      setShowEncryptBackup(false);
+    } catch (e) {
+      alert('Erro ao criar backup criptografado: ' + e);
+    }
+  };
+
+  // Extrato do banco: só adiciona lançamentos, nunca limpa os dados existentes
+  const handleImportStatement = async (items: Omit<Transaction, 'id' | 'createdAt'>[]) => {
+    try {
+      // Uma única transação: se algo falhar, nada é importado e o extrato pode ser reenviado inteiro
+      const createdAt = Date.now();
+      await db.addTransactions(items.map(data => ({ ...data, id: crypto.randomUUID(), createdAt })));
+      setShowStatementImport(false);
+      alert(`${items.length} lançamento(s) importado(s) com sucesso!`);
+    } catch (e) {
+      alert('Erro ao importar extrato: ' + e);
+    }
+  };
+
+  // Planilha: sempre pela data da compra, em ordem cronológica
+  const handleExportCsv = async (scope: CsvScope) => {
+    try {
+      const transactions = scope.type === 'MONTH'
+        ? await db.getTransactionsByMonth(currentMonth)
+        : scope.type === 'RANGE'
+          ? await db.getTransactionsByDateRange(scope.start, scope.end)
+          : await db.getAllTransactions();
+
+      if (transactions.length === 0) {
+        alert('Nenhum lançamento no período selecionado.');
+        return;
+      }
+
+      const csv = buildTransactionsCsv([...transactions].reverse(), categories, accounts);
+      const suffix = scope.type === 'MONTH'
+        ? currentMonth
+        : scope.type === 'RANGE'
+          ? `${scope.start}_a_${scope.end}`
+          : `completo_${new Date().toLocaleDateString('sv')}`;
+
+      downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `GestorGastos_${suffix}.csv`);
+    } catch (e) {
+      alert('Erro ao exportar planilha: ' + e);
+    }
+  };
+
   const handleRestoreClick = () => {
     fileInputRef.current?.click();
   };
@@ -156,34 +623,86 @@ const App: React.FC = () => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (!window.confirm(`Isso irá SOBRESCREVER todos os dados atuais com os dados do arquivo "${file.name}". Deseja continuar?`)) {
-      e.target.value = '';
-      return;
-    }
-
     const reader = new FileReader();
-    reader.onload = async (event) => {
-      try {
-        const json = event.target?.result as string;
-        const data = JSON.parse(json);
-        
-        // Basic validation
-        if (!data.transactions || !data.budgets) {
-          throw new Error("Arquivo de backup inválido.");
-        }
-
-        await db.importDatabase(data);
-        alert('Backup restaurado com sucesso!');
-        loadData();
-      } catch (err) {
-        alert('Erro ao restaurar backup: Arquivo inválido ou corrompido.');
-        console.error(err);
+    reader.onload = (event) => {
+      const text = event.target?.result as string;
+      if (isEncryptedBackup(text)) {
+        setPendingDecrypt({ text, fileName: file.name });
+      } else {
+        openBackup(text, file.name);
       }
     };
     reader.readAsText(file);
     e.target.value = ''; // Reset input
   };
 
+  // Migra e valida tudo antes de apagar qualquer dado
+  const openBackup = (json: string, fileName: string) => {
+    const { data, errors } = parseBackup(json);
+    if (!data) {
+      alert(`Backup inválido, nenhum dado foi alterado:\n\n${formatBackupErrors(errors)}`);
+      return;
+    }
+    setPendingRestore({ data, fileName });
+  };
+
+  const handleDecrypt = async (passphrase: string) => {
+    if (!pendingDecrypt) return;
+    try {
+      const json = await decryptBackup(pendingDecrypt.text, passphrase);
+      if (json === null) {
+        setPendingDecrypt({ ...pendingDecrypt, error: 'Senha incorreta. Confira a senha usada ao criar o backup.' });
+        return;
+      }
+      setPendingDecrypt(null);
+      openBackup(json, pendingDecrypt.fileName);
+    } catch (err) {
+      setPendingDecrypt(null);
+      alert('Erro ao abrir backup criptografado: ' + (err instanceof Error ? err.message : err));
+    }
+  };
+
+  const handleReplaceRestore = async () => {
+    if (!pendingRestore) return;
+    try {
+      await db.importDatabase(pendingRestore.data);
+      setPendingRestore(null);
+      alert('Backup restaurado com sucesso!');
+    } catch (err) {
+      alert('Erro ao restaurar backup. Os dados atuais foram mantidos.');
+      console.error(err);
+    }
+  };
+
+  // Mesclagem: inclui e atualiza pelo id, sem apagar nada do que já existe
+  const handleMergeRestore = async (changes: MergePlan['changes']) => {
+    try {
+      await db.mergeDatabase(changes);
+      setPendingRestore(null);
+      alert('Backup mesclado com sucesso!');
+    } catch (err) {
+      alert('Erro ao mesclar backup. Os dados atuais foram mantidos.');
+      console.error(err);
+    }
+  };
+
+  // Snapshots antigos passam pelas mesmas migrações e validações de um arquivo de backup
+  const handleRollback = async (snapshot: Snapshot) => {
+    const { data, errors } = readBackup(snapshot.data);
+    if (!data) {
+      alert(`Ponto de restauração inválido, nenhum dado foi alterado:\n\n${formatBackupErrors(errors)}`);
+      return;
+    }
+    try {
+      await db.importDatabase(data);
+      setShowRestorePoints(false);
+      alert('Dados restaurados para o ponto escolhido.');
+    } catch (err) {
+      alert('Erro ao restaurar o ponto. Os dados atuais foram mantidos.');
+      console.error(err);
+    }
+  };
+
   // Formatting Month Header
   const formattedMonth = new Date(currentMonth + "-02")
     .toLocaleString('pt-BR', { month: 'long', year: 'numeric' });
@@ -195,6 +714,20 @@ const App: React.FC = () => {
       <div className="w-full max-w-md px-4 py-8" ref={topRef}>
         {/* Header */}
         <header className="mb-8 text-center relative">
+          <button
+            onClick={() => setShowAnnual(true)}
+            className="absolute left-0 top-0 p-2 bg-white rounded-full shadow-sm border border-gray-200 text-gray-500 hover:text-gray-800 transition-colors"
+            title="Visão anual"
+          >
+            <BarChart3 className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowSearch(true)}
+            className="absolute right-0 top-0 p-2 bg-white rounded-full shadow-sm border border-gray-200 text-gray-500 hover:text-gray-800 transition-colors"
+            title="Buscar em todos os meses"
+          >
+            <Search className="w-5 h-5" />
+          </button>
           <div className="inline-flex items-center justify-center p-3 bg-white rounded-full shadow-sm mb-4">
             <span className="text-3xl">💰</span>
           </div>
@@ -221,8 +754,41 @@ const App: React.FC = () => {
               <ChevronRight className="w-5 h-5 text-gray-600" />
             </button>
           </div>
+
+          {/* View Mode */}
+          <div className="flex justify-center mt-3">
+            <div className="inline-flex bg-gray-100 rounded-lg p-0.5 text-xs font-medium">
+              {(['PURCHASE', 'INVOICE'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setViewMode(mode)}
+                  className={`px-3 py-1 rounded-md transition-all ${viewMode === mode ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  {mode === 'PURCHASE' ? 'Por compra' : 'Por fatura'}
+                </button>
+              ))}
+            </div>
+          </div>
         </header>
 
+        {connectionState === 'blocked' && (
+          <div className="mb-4 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+            Há outra aba ou janela do app aberta com uma versão anterior. Feche-a para concluir a atualização.
+          </div>
+        )}
+
+        {connectionState === 'outdated' && (
+          <div className="mb-4 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800 flex items-center justify-between gap-3">
+            <span>O app foi atualizado em outra aba ou janela. Recarregue para continuar usando.</span>
+            <button
+              onClick={() => window.location.reload()}
+              className="px-3 py-1.5 rounded-lg bg-amber-600 hover:bg-amber-700 text-white text-xs font-semibold whitespace-nowrap"
+            >
+              Recarregar
+            </button>
+          </div>
+        )}
+
         {isLoading ? (
           <div className="flex justify-center py-20">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
@@ -231,23 +797,142 @@ const App: React.FC = () => {
           <main>
             <Summary 
               totalSpent={totalSpent} 
-              spentDebit={spentDebit}
-              spentCredit={spentCredit}
-              limit={budget} 
+              totalIncome={totalIncome}
+              balanceMode={settings.balanceMode}
+              accountTotals={accountTotals}
+              categoryTotals={categoryTotals}
+              pace={pace}
+              invoices={invoices}
+              isInvoiceView={viewMode === 'INVOICE'}
+              isFiltered={isSummaryFiltered}
+              limit={budget.limit} 
               onUpdateLimit={handleUpdateLimit}
+              onUpdateCategoryLimits={handleUpdateCategoryLimits}
             />
 
             <TransactionForm 
               initialData={editingTransaction}
+              categories={categories}
+              accounts={accounts}
               onAdd={handleAddTransaction}
               onUpdate={handleUpdateTransaction}
               onCancelEdit={() => setEditingTransaction(null)}
+              onRevert={handleRevertTransaction}
+              onAddCategory={handleAddCategory}
+              exchangeRates={settings.exchangeRates}
+              defaultIofRate={settings.iofRate}
+            />
+
+            <PendingOccurrences
+              pending={pendingOccurrences}
+              accounts={accounts}
+              onConfirm={handleConfirmOccurrence}
+              onSkip={handleSkipOccurrence}
             />
 
             <TransactionList 
               transactions={transactions} 
+              categories={categories}
+              accounts={accounts}
+              filter={filter}
+              filterSummary={filterSummary}
+              onFilterChange={setFilter}
+              onToggleFilterSummary={() => setFilterSummary(!filterSummary)}
               onDelete={handleDeleteTransaction}
               onEdit={handleEditClick}
+              onRefund={handleRefundClick}
+            />
+
+            {showSearch && (
+              <SearchPanel
+                categories={categories}
+                onSelect={handleSearchSelect}
+                onClose={() => setShowSearch(false)}
+              />
+            )}
+
+            {showAnnual && (
+              <AnnualOverview
+                currentMonth={currentMonth}
+                today={getLocalMonth()}
+                onSelectMonth={handleAnnualSelectMonth}
+                onClose={() => setShowAnnual(false)}
+              />
+            )}
+
+            {showStatementImport && (
+              <StatementImport
+                accounts={accounts}
+                onImport={handleImportStatement}
+                onClose={() => setShowStatementImport(false)}
+              />
+            )}
+
+            {showOfxImport && (
+              <OfxImport
+                accounts={accounts}
+                onClose={() => setShowOfxImport(false)}
+              />
+            )}
+
+            {showTrash && (
+              <TrashBin
+                accounts={accounts}
+                onClose={() => setShowTrash(false)}
+              />
+            )}
+
+            {showRestorePoints && (
+              <RestorePoints
+                onRestore={handleRollback}
+                onClose={() => setShowRestorePoints(false)}
+              />
+            )}
+
+            {pendingDecrypt && (
+              <PassphraseDialog
+                mode="DECRYPT"
+                fileName={pendingDecrypt.fileName}
+                error={pendingDecrypt.error}
+                onSubmit={handleDecrypt}
+                onCancel={() => setPendingDecrypt(null)}
+              />
+            )}
+
+            {showEncryptBackup && (
+              <PassphraseDialog
+                mode="ENCRYPT"
+                onSubmit={handleEncryptedBackup}
+                onCancel={() => setShowEncryptBackup(false)}
+              />
+            )}
+
+            {pendingRestore && (
+              <RestoreDialog
+                data={pendingRestore.data}
+                fileName={pendingRestore.fileName}
+                onReplace={handleReplaceRestore}
+                onMerge={handleMergeRestore}
+                onCancel={() => setPendingRestore(null)}
+              />
+            )}
+
+            {refundTarget && (
+              <RefundDialog
+                transaction={refundTarget.transaction}
+                remaining={refundTarget.remaining}
+                onConfirm={handleConfirmRefund}
+                onCancel={() => setRefundTarget(null)}
+              />
+            )}
+
+            <RecurringManager
+              rules={recurringRules}
+              categories={categories}
+              accounts={accounts}
+              currentMonth={currentMonth}
+              onSave={handleSaveRecurringRule}
+              onDelete={handleDeleteRecurringRule}
             />
 
             {/* Data Management Section */}
@@ -263,6 +948,53 @@ const App: React.FC = () => {
               {showSettings && (
                 <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-4 animate-in slide-in-from-top-2 fade-in duration-300">
                   <div className="space-y-3">
+                    <label className="flex items-center justify-between p-3 rounded-lg border border-gray-100 cursor-pointer">
+                      <span className="flex flex-col">
+                        <span className="font-medium text-gray-800">Modo saldo</span>
+                        <span className="text-xs text-gray-400">Saldo do mês = receitas - gastos</span>
+                      </span>
+                      <input
+                        type="checkbox"
+                        checked={settings.balanceMode}
+                        onChange={handleToggleBalanceMode}
+                        className="w-5 h-5 accent-emerald-600"
+                      />
+                    </label>
+
+                    <label className="flex items-center justify-between gap-3 p-3 rounded-lg border border-gray-100">
+                      <span className="flex flex-col">
+                        <span className="font-medium text-gray-800">Seu nome</span>
+                        <span className="text-xs text-gray-400">Aparece no histórico de alterações</span>
+                      </span>
+                      <input
+                        type="text"
+                        value={settings.authorName}
+                        onChange={(e) => setSettings({ ...settings, authorName: e.target.value })}
+                        onBlur={handleSaveAuthorName}
+                        placeholder="Quem está usando"
+                        className="w-40 px-3 py-1.5 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all"
+                      />
+                    </label>
+
+                    <label className="flex items-center justify-between gap-3 p-3 rounded-lg border border-gray-100">
+                      <span className="flex flex-col">
+                        <span className="font-medium text-gray-800">IOF (%)</span>
+                        <span className="text-xs text-gray-400">Sugerido em compras internacionais no crédito</span>
+                      </span>
+                      <input
+                        key={settings.iofRate}
+                        type="text"
+                        inputMode="decimal"
+                        defaultValue={formatDecimal(settings.iofRate * 100, 2)}
+                        onBlur={(e) => handleSaveIofRate(e.target)}
+                        className="w-24 px-3 py-1.5 rounded-lg border border-gray-300 text-sm text-right focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all"
+                      />
+                    </label>
+
+                    <AccountSettings accounts={accounts} onSave={handleSaveAccount} />
+
+                    <div className="h-px bg-gray-100 my-2"></div>
+
                     <button 
                       onClick={handleBackup}
                       className="w-full flex items-center justify-between p-3 rounded-lg border border-gray-100 hover:bg-emerald-50 hover:border-emerald-200 hover:text-emerald-700 transition-all group"
@@ -273,6 +1005,38 @@ const App: React.FC = () => {
                       <span className="text-xs text-gray-400 group-hover:text-emerald-500">Baixar JSON</span>
                     </button>
 
+                    <button
+                      onClick={() => setShowEncryptBackup(true)}
+                      className="w-full flex items-center justify-between p-3 rounded-lg border border-gray-100 hover:bg-emerald-50 hover:border-emerald-200 hover:text-emerald-700 transition-all group"
+                    >
+                      <span className="flex items-center gap-2 font-medium">
+                        <Lock className="w-4 h-4" /> Backup com Senha
+                      </span>
+                      <span className="text-xs text-gray-400 group-hover:text-emerald-500">Criptografado</span>
+                    </button>
+
+                    <CsvExport currentMonthLabel={capitalize(formattedMonth)} onExport={handleExportCsv} />
+
+                    <button
+                      onClick={() => setShowStatementImport(true)}
+                      className="w-full flex items-center justify-between p-3 rounded-lg border border-gray-100 hover:bg-violet-50 hover:border-violet-200 hover:text-violet-700 transition-all group"
+                    >
+                      <span className="flex items-center gap-2 font-medium">
+                        <FileUp className="w-4 h-4" /> Importar Extrato
+                      </span>
+                      <span className="text-xs text-gray-400 group-hover:text-violet-500">Enviar CSV do banco</span>
+                    </button>
+
+                    <button
+                      onClick={() => setShowOfxImport(true)}
+                      className="w-full flex items-center justify-between p-3 rounded-lg border border-gray-100 hover:bg-violet-50 hover:border-violet-200 hover:text-violet-700 transition-all group"
+                    >
+                      <span className="flex items-center gap-2 font-medium">
+                        <FileDown className="w-4 h-4" /> Importar OFX
+                      </span>
+                      <span className="text-xs text-gray-400 group-hover:text-violet-500">Sem duplicar lançamentos</span>
+                    </button>
+
                     <button 
                       onClick={handleRestoreClick}
                       className="w-full flex items-center justify-between p-3 rounded-lg border border-gray-100 hover:bg-blue-50 hover:border-blue-200 hover:text-blue-700 transition-all group"
@@ -282,6 +1046,26 @@ const App: React.FC = () => {
                       </span>
                       <span className="text-xs text-gray-400 group-hover:text-blue-500">Enviar JSON</span>
                     </button>
+
+                    <button
+                      onClick={() => setShowRestorePoints(true)}
+                      className="w-full flex items-center justify-between p-3 rounded-lg border border-gray-100 hover:bg-blue-50 hover:border-blue-200 hover:text-blue-700 transition-all group"
+                    >
+                      <span className="flex items-center gap-2 font-medium">
+                        <History className="w-4 h-4" /> Pontos de Restauração
+                      </span>
+                      <span className="text-xs text-gray-400 group-hover:text-blue-500">Desfazer</span>
+                    </button>
+
+                    <button
+                      onClick={() => setShowTrash(true)}
+                      className="w-full flex items-center justify-between p-3 rounded-lg border border-gray-100 hover:bg-blue-50 hover:border-blue-200 hover:text-blue-700 transition-all group"
+                    >
+                      <span className="flex items-center gap-2 font-medium">
+                        <Trash2 className="w-4 h-4" /> Lixeira
+                      </span>
+                      <span className="text-xs text-gray-400 group-hover:text-blue-500">Lançamentos apagados</span>
+                    </button>
                     {/* Hidden input for file upload */}
                     <input 
                       type="file" 
@@ -308,6 +1092,10 @@ const App: React.FC = () => {
             </div>
           </main>
         )}
+
+        {undoAction && (
+          <UndoToast key={undoAction.id} message={undoAction.message} onUndo={handleUndo} onDismiss={dismissUndo} />
+        )}
         
         <footer className="mt-8 text-center text-xs text-gray-400">
           <p className="flex items-center justify-center gap-1">
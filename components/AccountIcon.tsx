@@ -0,0 +1,27 @@
+import React from 'react';
+import { Landmark, Smartphone, Banknote, FileText, Ticket, CreditCard } from 'lucide-react';
+import { AccountType } from '../types';
+
+export const ACCOUNT_TYPES: { type: AccountType; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { type: 'CHECKING', label: 'Conta / Débito', icon: Landmark },
+  { type: 'PIX', label: 'PIX', icon: Smartphone },
+  { type: 'CASH', label: 'Dinheiro', icon: Banknote },
+  { type: 'BOLETO', label: 'Boleto', icon: FileText },
+  { type: 'VOUCHER', label: 'Vale (VR/VA)', icon: Ticket },
+  { type: 'CREDIT_CARD', label: 'Cartão de Crédito', icon: CreditCard },
+];
+
+export const getAccountTypeLabel = (type: AccountType) =>
+  ACCOUNT_TYPES.find(t => t.type === type)?.label || type;
+
+interface AccountIconProps {
+  type: AccountType;
+  className?: string;
+}
+
+const AccountIcon: React.FC<AccountIconProps> = ({ type, className }) => {
+  const Icon = ACCOUNT_TYPES.find(t => t.type === type)?.icon || Landmark;
+  return <Icon className={className} />;
+};
+
+export default AccountIcon;
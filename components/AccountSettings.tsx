@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Account, AccountType } from '../types';
+import { centsToInput, parseMoneyInput } from '../services/money';
+import AccountIcon, { ACCOUNT_TYPES } from './AccountIcon';
+import { CATEGORY_COLORS } from './CategoryIcon';
+import { Plus, Check, Archive, ArchiveRestore } from 'lucide-react';
+
+interface AccountSettingsProps {
+  accounts: Account[];
+  onSave: (account: Account) => void;
+}
+
+const DAYS = Array.from({ length: 31 }, (_, i) => i + 1);
+
+const selectClass = 'px-2 py-1 rounded border border-gray-200 bg-white text-gray-800';
+
+const AccountRow: React.FC<{ account: Account; onSave: (account: Account) => void }> = ({ account, onSave }) => {
+  const [name, setName] = useState(account.name);
+  const [type, setType] = useState<AccountType>(account.type);
+  const [color, setColor] = useState(account.color);
+  const [limit, setLimit] = useState(account.limit ? centsToInput(account.limit) : '');
+  const [closingDay, setClosingDay] = useState(account.closingDay || 25);
+  const [dueDay, setDueDay] = useState(account.dueDay || 5);
+
+  const isCard = type === 'CREDIT_CARD';
+  const limitValue = limit ? parseMoneyInput(limit) : undefined;
+
+  const isDirty = name !== account.name
+    || type !== account.type
+    || color !== account.color
+    || limitValue !== account.limit
+    || (isCard && (closingDay !== account.closingDay || dueDay !== account.dueDay));
+
+  const handleLimitChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value.replace(/\D/g, '');
+    setLimit(value === '' || Number(value) === 0 ? '' : centsToInput(parseInt(value, 10)));
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...account,
+      name: name.trim(),
+      type,
+      color,
+      limit: limitValue,
+      closingDay: isCard ? closingDay : undefined,
+      dueDay: isCard ? dueDay : undefined,
+    });
+  };
+
+  return (
+    <div className={`p-3 rounded-lg border border-gray-100 space-y-2 ${account.archived ? 'opacity-50' : ''}`}>
+      <div className="flex items-center gap-2">
+        <span style={{ color }}>
+          <AccountIcon type={type} className="w-4 h-4 shrink-0" />
+        </span>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="flex-1 min-w-0 border-b border-transparent focus:border-gray-300 outline-none font-medium text-gray-800"
+        />
+        {isDirty && name.trim() && (
+          <button onClick={handleSave} className="text-emerald-600 hover:text-emerald-700" title="Salvar">
+            <Check className="w-5 h-5" />
+          </button>
+        )}
+        <button
+          onClick={() => onSave({ ...account, archived: !account.archived })}
+          className="text-gray-300 hover:text-gray-500"
+          title={account.archived ? 'Reativar' : 'Arquivar'}
+        >
+          {account.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs text-gray-500">
+        <select value={type} onChange={(e) => setType(e.target.value as AccountType)} className={selectClass}>
+          {ACCOUNT_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+        </select>
+        <input
+          type="tel"
+          inputMode="numeric"
+          value={limit}
+          onChange={handleLimitChange}
+          placeholder="Limite (opcional)"
+          className={selectClass}
+        />
+      </div>
+
+      {isCard && (
+        <div className="grid grid-cols-2 gap-2 text-xs text-gray-500">
+          <label className="flex items-center justify-between gap-2">
+            Fecha dia
+            <select value={closingDay} onChange={(e) => setClosingDay(Number(e.target.value))} className={selectClass}>
+              {DAYS.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            Vence dia
+            <select value={dueDay} onChange={(e) => setDueDay(Number(e.target.value))} className={selectClass}>
+              {DAYS.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+          </label>
+        </div>
+      )}
+
+      <div className="flex gap-1.5">
+        {CATEGORY_COLORS.map(c => (
+          <button
+            key={c}
+            type="button"
+            onClick={() => setColor(c)}
+            className={`w-5 h-5 rounded-full ${color === c ? 'ring-2 ring-offset-1 ring-gray-400' : ''}`}
+            style={{ backgroundColor: c }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const AccountSettings: React.FC<AccountSettingsProps> = ({ accounts, onSave }) => {
+  const handleAddAccount = () => {
+    onSave({
+      id: crypto.randomUUID(),
+      name: `Conta ${accounts.length + 1}`,
+      type: 'CHECKING',
+      color: CATEGORY_COLORS[accounts.length % CATEGORY_COLORS.length],
+      createdAt: Date.now(),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-xs font-medium uppercase tracking-wide text-gray-500">Contas e Cartões</h4>
+      {accounts.map(account => (
+        <AccountRow key={JSON.stringify(account)} account={account} onSave={onSave} />
+      ))}
+      <button
+        onClick={handleAddAccount}
+        className="w-full flex items-center justify-center gap-1 p-2 rounded-lg border border-dashed border-gray-300 text-sm text-gray-500 hover:bg-gray-50 transition-all"
+      >
+        <Plus className="w-4 h-4" /> Adicionar conta
+      </button>
+    </div>
+  );
+};
+
+export default AccountSettings;
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { AnnualOverview as Overview, getAnnualOverview } from '../services/annual';
+import { formatCurrency } from '../services/money';
+import { ChevronLeft, ChevronRight, X, BarChart3 } from 'lucide-react';
+
+interface AnnualOverviewProps {
+  currentMonth: string; // Mês exibido na tela mensal (define o ano inicial)
+  today: string; // YYYY-MM, base do acumulado no ano
+  onSelectMonth: (month: string) => void;
+  onClose: () => void;
+}
+
+// Versão curta para caber no gráfico: R$ 1,2 mil
+const formatCompact = (cents: number) => formatCurrency(cents, 'BRL', { compact: true });
+
+const monthLabel = (month: string) =>
+  new Date(`${month}-02`).toLocaleString('pt-BR', { month: 'short' }).replace('.', '');
+
+const AnnualOverview: React.FC<AnnualOverviewProps> = ({ currentMonth, today, onSelectMonth, onClose }) => {
+  const [year, setYear] = useState(() => Number(currentMonth.slice(0, 4)));
+  const [overview, setOverview] = useState<Overview | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(null);
+    getAnnualOverview(year, today)
+      .then(result => {
+        if (!cancelled) setOverview(result);
+      })
+      .catch(error => {
+        console.error('Failed to load annual overview', error);
+        if (!cancelled) setLoadError(`Não foi possível carregar o resumo de ${year}.`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [year, today]);
+
+  // Escala do gráfico: maior valor entre gastos e limites do ano
+  const maxValue = overview
+    ? Math.max(...overview.months.map(m => Math.max(m.spent, m.limit)), 1)
+    : 1;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-50 overflow-y-auto">
+      <div className="w-full max-w-md mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-gray-500" /> Visão Anual
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600" title="Fechar">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-center gap-4 bg-white rounded-lg p-1 shadow-sm border border-gray-200 w-fit mx-auto">
+          <button onClick={() => setYear(year - 1)} className="p-1 hover:bg-gray-100 rounded-md transition-colors">
+            <ChevronLeft className="w-5 h-5 text-gray-600" />
+          </button>
+          <span className="font-semibold text-gray-700 min-w-[80px] text-center">{year}</span>
+          <button onClick={() => setYear(year + 1)} className="p-1 hover:bg-gray-100 rounded-md transition-colors">
+            <ChevronRight className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        {loadError ? (
+          <p className="text-sm text-red-600 text-center py-20">{loadError}</p>
+        ) : !overview || overview.year !== year ? (
+          <div className="flex justify-center py-20">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <>
+            {/* Acumulado no ano */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="bg-white p-3 rounded-xl border border-gray-100 shadow-sm">
+                <div className="text-xs text-gray-500 uppercase">Gasto no ano</div>
+                <div className="text-lg font-bold text-gray-900">{formatCurrency(overview.totalSpent)}</div>
+                {overview.totalIncome > 0 && (
+                  <div className="text-xs text-emerald-600">+ {formatCurrency(overview.totalIncome)} em receitas</div>
+                )}
+              </div>
+              <div className="bg-white p-3 rounded-xl border border-gray-100 shadow-sm">
+                <div className="text-xs text-gray-500 uppercase">Média mensal</div>
+                <div className="text-lg font-bold text-gray-900">{formatCurrency(overview.averageSpent)}</div>
+                <div className="text-xs text-gray-400">
+                  {overview.monthsWithLimit > 0
+                    ? `${overview.monthsWithinLimit} de ${overview.monthsWithLimit} meses dentro do limite`
+                    : `${overview.elapsedMonths} ${overview.elapsedMonths === 1 ? 'mês' : 'meses'} no ano`}
+                </div>
+              </div>
+            </div>
+
+            {/* Gráfico: débito embaixo, crédito em cima e uma marca no limite */}
+            <div className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm">
+              <div className="flex items-end gap-1 h-40">
+                {overview.months.map(m => {
+                  const isOver = m.limit > 0 && m.spent > m.limit;
+                  return (
+                    <button
+                      key={m.month}
+                      onClick={() => onSelectMonth(m.month)}
+                      className="relative flex-1 h-full flex flex-col justify-end group"
+                      title={`${monthLabel(m.month)}: ${formatCurrency(m.spent)}`}
+                    >
+                      {m.limit > 0 && (
+                        <div
+                          className="absolute left-0 right-0 border-t-2 border-dashed border-gray-400"
+                          style={{ bottom: `${(m.limit / maxValue) * 100}%` }}
+                        ></div>
+                      )}
+                      <div
+                        className={`w-full rounded-t bg-blue-400 group-hover:opacity-80 ${isOver ? 'ring-2 ring-red-400' : ''}`}
+                        style={{ height: `${(Math.max(m.credit, 0) / maxValue) * 100}%` }}
+                      ></div>
+                      <div
+                        className="w-full bg-emerald-400 group-hover:opacity-80"
+                        style={{ height: `${(Math.max(m.debit, 0) / maxValue) * 100}%` }}
+                      ></div>
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="flex gap-1 mt-1">
+                {overview.months.map(m => (
+                  <span
+                    key={m.month}
+                    className={`flex-1 text-center text-[10px] uppercase ${m.month === currentMonth ? 'font-bold text-gray-900' : 'text-gray-400'}`}
+                  >
+                    {monthLabel(m.month)}
+                  </span>
+                ))}
+              </div>
+              <div className="flex items-center justify-center gap-4 mt-3 text-xs text-gray-500">
+                <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-emerald-400"></span> Débito</span>
+                <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-blue-400"></span> Crédito</span>
+                <span className="flex items-center gap-1"><span className="w-3 border-t-2 border-dashed border-gray-400"></span> Limite</span>
+              </div>
+            </div>
+
+            {/* Tabela mês a mês */}
+            <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 text-gray-500 uppercase">
+                  <tr>
+                    <th className="text-left font-medium px-3 py-2">Mês</th>
+                    <th className="text-right font-medium px-2 py-2">Gasto</th>
+                    <th className="text-right font-medium px-2 py-2">Limite</th>
+                    <th className="text-right font-medium px-3 py-2">Diferença</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {overview.months.map(m => {
+                    const diff = m.limit - m.spent;
+                    return (
+                      <tr
+                        key={m.month}
+                        onClick={() => onSelectMonth(m.month)}
+                        className={`cursor-pointer hover:bg-gray-50 ${m.month === currentMonth ? 'bg-gray-50' : ''}`}
+                      >
+                        <td className="px-3 py-2">
+                          <div className="font-medium text-gray-800 capitalize">{monthLabel(m.month)}</div>
+                          {m.spent !== 0 && (
+                            <div className="text-[10px] text-gray-400 whitespace-nowrap">
+                              D {formatCompact(m.debit)} • C {formatCompact(m.credit)}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-2 py-2 text-right font-semibold text-gray-900 whitespace-nowrap">{formatCurrency(m.spent)}</td>
+                        <td className="px-2 py-2 text-right text-gray-500 whitespace-nowrap">{m.limit > 0 ? formatCurrency(m.limit) : '—'}</td>
+                        <td className={`px-3 py-2 text-right font-medium whitespace-nowrap ${m.limit === 0 ? 'text-gray-300' : diff >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                          {m.limit > 0 ? `${diff >= 0 ? '+' : '-'} ${formatCurrency(Math.abs(diff))}` : '—'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnnualOverview;
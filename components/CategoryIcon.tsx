@@ -0,0 +1,44 @@
+import React from 'react';
+import {
+  Tag, ShoppingCart, Utensils, Car, Home, Gamepad2, HeartPulse, GraduationCap,
+  Shirt, Plane, Gift, Smartphone, Zap, Dumbbell, Coffee, Film, Bus, Pill
+} from 'lucide-react';
+
+// Chaves persistidas em Category.icon -> componente do lucide
+export const CATEGORY_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  'tag': Tag,
+  'shopping-cart': ShoppingCart,
+  'utensils': Utensils,
+  'car': Car,
+  'bus': Bus,
+  'home': Home,
+  'gamepad': Gamepad2,
+  'heart-pulse': HeartPulse,
+  'pill': Pill,
+  'graduation-cap': GraduationCap,
+  'shirt': Shirt,
+  'plane': Plane,
+  'gift': Gift,
+  'smartphone': Smartphone,
+  'zap': Zap,
+  'dumbbell': Dumbbell,
+  'coffee': Coffee,
+  'film': Film,
+};
+
+export const CATEGORY_COLORS = [
+  '#10b981', '#3b82f6', '#8b5cf6', '#ec4899', '#ef4444',
+  '#f97316', '#f59e0b', '#14b8a6', '#6366f1', '#6b7280',
+];
+
+interface CategoryIconProps {
+  icon: string;
+  className?: string;
+}
+
+const CategoryIcon: React.FC<CategoryIconProps> = ({ icon, className }) => {
+  const Icon = CATEGORY_ICONS[icon] || Tag;
+  return <Icon className={className} />;
+};
+
+export default CategoryIcon;
@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import { Transaction, AuditEntry, AuditAction, Category, Account } from '../types';
+import { getTransactionHistory } from '../services/db';
+import { formatCurrency } from '../services/money';
+import { History, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react';
+
+interface ChangeHistoryProps {
+  transactionId: string;
+  categories: Category[];
+  accounts: Account[];
+  onRevert: (version: Transaction) => Promise<void>;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: 'Criado',
+  UPDATE: 'Alterado',
+  DELETE: 'Enviado para a lixeira',
+  RESTORE: 'Restaurado da lixeira',
+  PURGE: 'Excluído definitivamente',
+  REVERT: 'Versão anterior restaurada',
+};
+
+const formatDate = (dateStr: string) => {
+  const [year, month, day] = dateStr.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const ChangeHistory: React.FC<ChangeHistoryProps> = ({ transactionId, categories, accounts, onRevert }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLoadError(false);
+    getTransactionHistory(transactionId)
+      .then(setEntries)
+      .catch(error => {
+        console.error('Failed to load change history', error);
+        setLoadError(true);
+      });
+  }, [isOpen, transactionId]);
+
+  // Campos exibidos na comparação entre versões, já formatados
+  const describe = (t: Transaction): [string, string][] => [
+    ['Descrição', t.description],
+    ['Valor', formatCurrency(t.amount)],
+    ['Tipo', t.kind === 'INCOME' ? 'Receita' : 'Gasto'],
+    ['Data', formatDate(t.date)],
+    ['Hora', t.time || '—'],
+    ['Categoria', categories.find(c => c.id === t.category)?.name || 'Categoria removida'],
+    ['Conta', accounts.find(a => a.id === t.accountId)?.name || 'Conta removida'],
+  ];
+
+  const diff = (entry: AuditEntry) => {
+    if (!entry.before || !entry.after) return [];
+    const after = describe(entry.after);
+    return describe(entry.before)
+      .map(([label, value], i) => ({ label, from: value, to: after[i][1] }))
+      .filter(change => change.from !== change.to);
+  };
+
+  const handleRevert = async (entry: AuditEntry) => {
+    if (!window.confirm(`Voltar este lançamento para a versão de ${formatTimestamp(entry.timestamp)}?`)) return;
+    setRevertingId(entry.id);
+    try {
+      await onRevert(entry.after!);
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 border-t border-amber-200 pt-4">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-sm font-medium text-amber-800"
+      >
+        <span className="flex items-center gap-2">
+          <History className="w-4 h-4" /> Histórico de alterações
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {isOpen && (
+        loadError ? (
+          <p className="text-sm text-red-600 text-center py-4">Não foi possível carregar o histórico deste lançamento.</p>
+        ) : !entries ? (
+          <p className="text-sm text-gray-400 text-center py-4">Carregando...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">Nenhuma alteração registrada para este lançamento.</p>
+        ) : (
+          <div className="mt-3 bg-white rounded-xl border border-amber-100 divide-y divide-gray-100">
+            {entries.map((entry, index) => {
+              const changes = diff(entry);
+              // A mais recente é a versão atual; lixeira e exclusão se desfazem pela Lixeira
+              const canRevert = index > 0 && entry.after && entry.action !== 'DELETE';
+              return (
+                <div key={entry.id} className="px-3 py-2 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium text-gray-900">{ACTION_LABELS[entry.action]}</p>
+                    <p className="text-xs text-gray-500 whitespace-nowrap">{formatTimestamp(entry.timestamp)}</p>
+                  </div>
+                  <p className="text-xs text-gray-500">por {entry.author || 'autor não informado'}</p>
+                  {changes.length > 0 && (
+                    <ul className="text-xs text-gray-700 space-y-0.5">
+                      {changes.map(change => (
+                        <li key={change.label}>
+                          <span className="text-gray-500">{change.label}:</span>{' '}
+                          <span className="line-through text-gray-400">{change.from}</span> → {change.to}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {canRevert && (
+                    <button
+                      type="button"
+                      onClick={() => handleRevert(entry)}
+                      disabled={revertingId !== null}
+                      className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-3 h-3" /> {revertingId === entry.id ? 'Restaurando...' : 'Restaurar esta versão'}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ChangeHistory;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, ChevronDown, ChevronUp } from 'lucide-react';
+
+export type CsvScope =
+  | { type: 'MONTH' }
+  | { type: 'RANGE'; start: string; end: string }
+  | { type: 'ALL' };
+
+interface CsvExportProps {
+  currentMonthLabel: string;
+  onExport: (scope: CsvScope) => void;
+}
+
+const inputClass = 'px-2 py-1 rounded border border-gray-200 bg-white text-gray-800 text-sm';
+
+const CsvExport: React.FC<CsvExportProps> = ({ currentMonthLabel, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scopeType, setScopeType] = useState<CsvScope['type']>('MONTH');
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+
+  const isRangeValid = !!start && !!end && start <= end;
+
+  const handleExport = () => {
+    if (scopeType === 'RANGE') {
+      if (!isRangeValid) return;
+      onExport({ type: 'RANGE', start, end });
+    } else {
+      onExport({ type: scopeType });
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-100">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-3 rounded-lg hover:bg-amber-50 hover:text-amber-700 transition-all group"
+      >
+        <span className="flex items-center gap-2 font-medium">
+          <FileSpreadsheet className="w-4 h-4" /> Exportar Planilha
+        </span>
+        <span className="flex items-center gap-1 text-xs text-gray-400 group-hover:text-amber-500">
+          Baixar CSV
+          {isOpen ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-2 text-sm text-gray-700">
+          {([
+            ['MONTH', `Mês atual (${currentMonthLabel})`],
+            ['RANGE', 'Período personalizado'],
+            ['ALL', 'Todos os lançamentos'],
+          ] as const).map(([type, label]) => (
+            <label key={type} className="flex items-center gap-2">
+              <input type="radio" name="csv-scope" checked={scopeType === type} onChange={() => setScopeType(type)} />
+              {label}
+            </label>
+          ))}
+
+          {scopeType === 'RANGE' && (
+            <div className="grid grid-cols-2 gap-2 text-xs text-gray-500">
+              <label className="flex flex-col gap-1">
+                De
+                <input type="date" value={start} onChange={(e) => setStart(e.target.value)} className={inputClass} />
+              </label>
+              <label className="flex flex-col gap-1">
+                Até
+                <input type="date" value={end} onChange={(e) => setEnd(e.target.value)} className={inputClass} />
+              </label>
+            </div>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={scopeType === 'RANGE' && !isRangeValid}
+            className="w-full bg-gray-900 hover:bg-black text-white text-sm font-semibold py-2 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Baixar CSV
+          </button>
+          <p className="text-xs text-gray-400">Separador ";" e vírgula decimal, pronto para Excel e Google Planilhas.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CsvExport;
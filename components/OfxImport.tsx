@@ -0,0 +1,156 @@
+import React, { useState, useRef } from 'react';
+import { Account } from '../types';
+import { OfxStatement, OfxImportResult, OfxTransaction, decodeOfx, parseOfx, importOfxStatement } from '../services/ofx';
+import { formatCurrency } from '../services/money';
+import { FileDown, X, CheckCircle2, SkipForward } from 'lucide-react';
+
+interface OfxImportProps {
+  accounts: Account[];
+  onClose: () => void;
+}
+
+const formatDate = (dateStr: string) => {
+  const [year, month, day] = dateStr.split('-');
+  return `${day}/${month}/${year.slice(2)}`;
+};
+
+const selectClass = 'w-full px-2 py-1.5 rounded border border-gray-200 bg-white text-gray-800 text-sm';
+
+const TransactionLine: React.FC<{ t: OfxTransaction; note?: string }> = ({ t, note }) => (
+  <div className="px-4 py-2 flex items-center justify-between gap-2 text-sm">
+    <div className="min-w-0">
+      <p className="truncate text-gray-900">{t.description}</p>
+      <p className="text-xs text-gray-500">{formatDate(t.date)}{note ? ` • ${note}` : ''}</p>
+    </div>
+    <span className={`font-semibold whitespace-nowrap ${t.amount > 0 ? 'text-emerald-600' : 'text-gray-900'}`}>
+      {t.amount > 0 ? '+' : '-'} {formatCurrency(Math.abs(t.amount))}
+    </span>
+  </div>
+);
+
+const OfxImport: React.FC<OfxImportProps> = ({ accounts, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const activeAccounts = accounts.filter(a => !a.archived);
+
+  const [fileName, setFileName] = useState('');
+  const [statement, setStatement] = useState<OfxStatement | null>(null);
+  const [accountId, setAccountId] = useState(activeAccounts[0]?.id || '');
+  const [result, setResult] = useState<OfxImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const parsed = parseOfx(decodeOfx(event.target?.result as ArrayBuffer));
+        setFileName(file.name);
+        setStatement(parsed);
+        setResult(null);
+        // Extrato de cartão sugere o primeiro cartão; de conta, a primeira conta que não é cartão
+        const suggested = activeAccounts.find(a => (a.type === 'CREDIT_CARD') === parsed.isCreditCard);
+        if (suggested) setAccountId(suggested.id);
+      } catch (error) {
+        alert('Erro ao ler o OFX: ' + (error instanceof Error ? error.message : error));
+      }
+    };
+    reader.readAsArrayBuffer(file);
+    e.target.value = '';
+  };
+
+  const handleImport = async () => {
+    const account = accounts.find(a => a.id === accountId);
+    if (!statement || !account) return;
+    setIsImporting(true);
+    try {
+      setResult(await importOfxStatement(statement, account));
+    } catch (error) {
+      alert('Erro ao importar OFX: ' + error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const dates = statement ? statement.transactions.map(t => t.date).sort() : [];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-50 overflow-y-auto">
+      <div className="w-full max-w-md mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <FileDown className="w-5 h-5 text-gray-500" /> Importar OFX
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600" title="Fechar">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm space-y-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center justify-center gap-2 p-3 rounded-lg border border-dashed border-gray-300 text-sm text-gray-600 hover:bg-gray-50 transition-all"
+          >
+            <FileDown className="w-4 h-4" /> {fileName || 'Escolher arquivo .ofx'}
+          </button>
+          <input type="file" accept=".ofx,.qfx" ref={fileInputRef} className="hidden" onChange={handleFileChange} />
+          <p className="text-xs text-gray-400">Reimportar o mesmo extrato não duplica lançamentos.</p>
+        </div>
+
+        {statement && !result && (
+          <div className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm space-y-3 text-sm text-gray-700">
+            <p>
+              <span className="font-semibold">{statement.transactions.length}</span> lançamentos
+              {dates.length > 0 && <> de {formatDate(dates[0])} a {formatDate(dates[dates.length - 1])}</>}
+              {statement.bankAccountId && <span className="text-gray-400"> • {statement.isCreditCard ? 'cartão' : 'conta'} {statement.bankAccountId}</span>}
+            </p>
+            {statement.currency !== 'BRL' && (
+              <p className="text-xs text-amber-600">Moeda do extrato: {statement.currency}. Os valores serão importados sem conversão.</p>
+            )}
+            <label className="block text-xs text-gray-500">
+              Importar para a conta
+              <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={selectClass}>
+                {activeAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            </label>
+            <button
+              onClick={handleImport}
+              disabled={isImporting || statement.transactions.length === 0}
+              className="w-full bg-emerald-600 hover:bg-emerald-700 text-white font-semibold py-3 rounded-lg shadow-md transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isImporting ? 'Importando...' : 'Importar'}
+            </button>
+          </div>
+        )}
+
+        {result && (
+          <>
+            <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-100 bg-emerald-50 flex items-center gap-2 text-sm font-semibold text-emerald-700">
+                <CheckCircle2 className="w-4 h-4" /> {result.added.length} adicionados
+              </div>
+              <div className="divide-y divide-gray-100 max-h-[40vh] overflow-y-auto">
+                {result.added.map(t => <TransactionLine key={t.fitId} t={t} />)}
+              </div>
+            </div>
+            {result.skipped.length > 0 && (
+              <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+                <div className="px-4 py-3 border-b border-gray-100 bg-gray-50 flex items-center gap-2 text-sm font-semibold text-gray-600">
+                  <SkipForward className="w-4 h-4" /> {result.skipped.length} ignorados
+                </div>
+                <div className="divide-y divide-gray-100 max-h-[40vh] overflow-y-auto">
+                  {result.skipped.map(({ transaction, reason }, i) => (
+                    <TransactionLine key={`${transaction.fitId}-${i}`} t={transaction} note={reason} />
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OfxImport;
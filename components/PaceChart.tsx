@@ -0,0 +1,86 @@
+import React from 'react';
+import { SpendingPace, getDailyAllowance } from '../services/pace';
+import { formatCurrency } from '../services/money';
+
+interface PaceChartProps {
+  pace: SpendingPace;
+  limit: number;
+}
+
+const WIDTH = 300;
+const HEIGHT = 100;
+
+const PaceChart: React.FC<PaceChartProps> = ({ pace, limit }) => {
+  const { daysInMonth, cumulative, elapsedDays, projected, status } = pace;
+  if (status === 'FUTURE') return null;
+
+  const maxValue = Math.max(limit, projected, ...cumulative, 1);
+  const x = (day: number) => (day / daysInMonth) * WIDTH;
+  const y = (value: number) => HEIGHT - (Math.max(value, 0) / maxValue) * HEIGHT;
+
+  // Curva real até hoje (ou o mês inteiro, se já passou)
+  const lastDay = status === 'PAST' ? daysInMonth : elapsedDays;
+  const actualPoints = [`0,${HEIGHT}`, ...cumulative.slice(0, lastDay).map((value, i) => `${x(i + 1)},${y(value)}`)].join(' ');
+
+  const isOverPace = limit > 0 && projected > limit;
+  const allowance = limit > 0 && status === 'CURRENT' ? getDailyAllowance(pace, limit) : null;
+
+  return (
+    <div className="mb-6">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-24 overflow-visible">
+        {limit > 0 && (
+          <line
+            x1={0} y1={HEIGHT} x2={WIDTH} y2={y(limit)}
+            stroke="#9ca3af" strokeWidth={1.5} strokeDasharray="4 3" vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {status === 'CURRENT' && lastDay > 0 && (
+          <line
+            x1={x(lastDay)} y1={y(cumulative[lastDay - 1])} x2={WIDTH} y2={y(projected)}
+            stroke={isOverPace ? '#ef4444' : '#10b981'} strokeWidth={1.5} strokeDasharray="1 3" vectorEffect="non-scaling-stroke"
+          />
+        )}
+        <polyline
+          points={actualPoints}
+          fill="none"
+          stroke="#111827"
+          strokeWidth={2}
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+        <span>Dia 1</span>
+        <span>{status === 'CURRENT' ? `Hoje: dia ${elapsedDays}` : 'Mês encerrado'}</span>
+        <span>Dia {daysInMonth}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mt-3 text-xs">
+        <div>
+          <div className="text-gray-500">{status === 'CURRENT' ? 'Projeção para o fim do mês' : 'Total do mês'}</div>
+          <div className={`font-semibold ${isOverPace ? 'text-red-600' : 'text-gray-900'}`}>
+            {formatCurrency(projected)}
+          </div>
+        </div>
+        {allowance !== null && (
+          <div className="text-right">
+            <div className="text-gray-500">Ainda pode gastar</div>
+            <div className={`font-semibold ${allowance > 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+              {allowance > 0 ? `${formatCurrency(allowance)} por dia` : 'Limite esgotado'}
+            </div>
+          </div>
+        )}
+        {status === 'PAST' && limit > 0 && (
+          <div className="text-right">
+            <div className="text-gray-500">Resultado</div>
+            <div className={`font-semibold ${projected <= limit ? 'text-emerald-600' : 'text-red-600'}`}>
+              {projected <= limit ? 'Dentro do limite' : `${formatCurrency(projected - limit)} acima`}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PaceChart;
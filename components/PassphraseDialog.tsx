@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { MIN_PASSPHRASE_LENGTH } from '../services/backupCrypto';
+import { Lock, X } from 'lucide-react';
+
+interface PassphraseDialogProps {
+  mode: 'ENCRYPT' | 'DECRYPT'; // ENCRYPT pede confirmação e tamanho mínimo
+  fileName?: string; // Arquivo sendo restaurado (DECRYPT)
+  error?: string; // Ex: senha incorreta na tentativa anterior
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all';
+
+const PassphraseDialog: React.FC<PassphraseDialogProps> = ({ mode, fileName, error, onSubmit, onCancel }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const isEncrypt = mode === 'ENCRYPT';
+  const isTooShort = isEncrypt && passphrase.length < MIN_PASSPHRASE_LENGTH;
+  const isMismatch = isEncrypt && confirmation !== passphrase;
+  const isValid = passphrase !== '' && !isTooShort && !isMismatch;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid || isWorking) return;
+    setIsWorking(true);
+    try {
+      await onSubmit(passphrase);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-end sm:items-center justify-center p-4" onClick={onCancel}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 space-y-4"
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+              <Lock className="w-5 h-5 text-emerald-600" /> {isEncrypt ? 'Backup criptografado' : 'Backup protegido por senha'}
+            </h3>
+            <p className="text-sm text-gray-500 mt-1 break-all">
+              {isEncrypt ? 'Sem a senha não há como recuperar os dados. Guarde-a em local seguro.' : fileName}
+            </p>
+          </div>
+          <button type="button" onClick={onCancel} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Senha</label>
+          <input
+            type="password"
+            autoFocus
+            autoComplete={isEncrypt ? 'new-password' : 'current-password'}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className={inputClass}
+          />
+          {isEncrypt && passphrase !== '' && isTooShort && (
+            <p className="text-xs text-gray-500 mt-1">Use pelo menos {MIN_PASSPHRASE_LENGTH} caracteres.</p>
+          )}
+        </div>
+
+        {isEncrypt && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Confirme a senha</label>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className={inputClass}
+            />
+            {confirmation !== '' && isMismatch && <p className="text-xs text-red-600 mt-1">As senhas não conferem.</p>}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={!isValid || isWorking}
+          className="w-full font-semibold py-3 rounded-lg shadow-md transition-all text-white bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isWorking ? (isEncrypt ? 'Criptografando...' : 'Verificando...') : (isEncrypt ? 'Baixar backup' : 'Abrir backup')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default PassphraseDialog;
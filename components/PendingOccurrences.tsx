@@ -0,0 +1,62 @@
+import React from 'react';
+import { Account } from '../types';
+import { PendingOccurrence } from '../services/recurring';
+import { formatCurrency } from '../services/money';
+import { Clock, Check, SkipForward } from 'lucide-react';
+
+interface PendingOccurrencesProps {
+  pending: PendingOccurrence[];
+  accounts: Account[];
+  onConfirm: (occurrence: PendingOccurrence) => void;
+  onSkip: (occurrence: PendingOccurrence) => void;
+}
+
+const formatDate = (dateStr: string) => {
+  const [, month, day] = dateStr.split('-');
+  return `${day}/${month}`;
+};
+
+const PendingOccurrences: React.FC<PendingOccurrencesProps> = ({ pending, accounts, onConfirm, onSkip }) => {
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 rounded-2xl border border-amber-200 overflow-hidden mb-6">
+      <div className="px-6 py-3 border-b border-amber-200 flex items-center gap-2 text-amber-800 font-semibold text-sm">
+        <Clock className="w-4 h-4" /> Recorrentes pendentes
+      </div>
+      <div className="divide-y divide-amber-100">
+        {pending.map((occurrence) => (
+          <div key={`${occurrence.rule.id}-${occurrence.month}`} className="px-4 py-3 flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 truncate">{occurrence.rule.description}</p>
+              <p className="text-xs text-gray-500">
+                {formatDate(occurrence.date)} • {accounts.find(a => a.id === occurrence.rule.accountId)?.name || 'Conta removida'}
+              </p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <span className="font-semibold text-gray-900 text-sm whitespace-nowrap mr-1">
+                {formatCurrency(occurrence.rule.amount)}
+              </span>
+              <button
+                onClick={() => onConfirm(occurrence)}
+                className="text-emerald-600 hover:text-emerald-700 p-1.5"
+                title="Confirmar"
+              >
+                <Check className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onSkip(occurrence)}
+                className="text-gray-400 hover:text-gray-600 p-1.5"
+                title="Pular este mês"
+              >
+                <SkipForward className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PendingOccurrences;
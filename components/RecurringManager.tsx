@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { RecurringRule, Category, Account, RecurrenceFrequency } from '../types';
+import { UNCATEGORIZED_ID, DEFAULT_DEBIT_ACCOUNT_ID, getAccountMethod } from '../services/db';
+import { formatCurrency, centsToInput, formatMoneyInput, parseMoneyInput } from '../services/money';
+import { Repeat, Pencil, Trash2, Plus, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface RecurringManagerProps {
+  rules: RecurringRule[];
+  categories: Category[];
+  accounts: Account[];
+  currentMonth: string;
+  onSave: (rule: RecurringRule) => void;
+  onDelete: (rule: RecurringRule) => void;
+}
+
+const formatMonth = (month: string) => {
+  const [year, m] = month.split('-');
+  return `${m}/${year}`;
+};
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all text-sm bg-white';
+
+const RecurringManager: React.FC<RecurringManagerProps> = ({ rules, categories, accounts, currentMonth, onSave, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<RecurringRule | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [accountId, setAccountId] = useState(DEFAULT_DEBIT_ACCOUNT_ID);
+  const [category, setCategory] = useState(UNCATEGORIZED_ID);
+  const [dayOfMonth, setDayOfMonth] = useState(1);
+  const [startMonth, setStartMonth] = useState(currentMonth);
+  const [endMonth, setEndMonth] = useState('');
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('MONTHLY');
+  const [autoConfirm, setAutoConfirm] = useState(true);
+
+  const openForm = (rule: RecurringRule | null) => {
+    setEditing(rule);
+    setDescription(rule ? rule.description : '');
+    setAmount(rule ? centsToInput(rule.amount) : '');
+    setAccountId(rule ? rule.accountId : DEFAULT_DEBIT_ACCOUNT_ID);
+    setCategory(rule ? rule.category : UNCATEGORIZED_ID);
+    setDayOfMonth(rule ? rule.dayOfMonth : 1);
+    setStartMonth(rule ? rule.startMonth : currentMonth);
+    setEndMonth(rule?.endMonth || '');
+    setFrequency(rule ? rule.frequency : 'MONTHLY');
+    setAutoConfirm(rule ? rule.autoConfirm : true);
+    setIsFormOpen(true);
+  };
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setAmount(formatMoneyInput(e.target.value));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const val = parseMoneyInput(amount);
+    if (!description.trim() || isNaN(val) || val <= 0 || !startMonth) return;
+    if (endMonth && endMonth < startMonth) return;
+    const account = accounts.find(a => a.id === accountId);
+    if (!account) return;
+
+    onSave({
+      id: editing ? editing.id : crypto.randomUUID(),
+      createdAt: editing ? editing.createdAt : Date.now(),
+      skippedMonths: editing ? editing.skippedMonths : [],
+      description: description.trim(),
+      amount: val,
+      accountId,
+      method: getAccountMethod(account),
+      category,
+      dayOfMonth,
+      startMonth,
+      endMonth: endMonth || undefined,
+      frequency,
+      autoConfirm,
+    });
+    setIsFormOpen(false);
+    setEditing(null);
+  };
+
+  const activeRules = rules.filter(r => !r.endMonth || r.endMonth >= currentMonth);
+  const accountName = (id: string) => accounts.find(a => a.id === id)?.name || 'Conta removida';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden mt-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-4 flex items-center justify-between bg-gray-50/50 hover:bg-gray-50 transition-colors"
+      >
+        <span className="flex items-center gap-2 font-semibold text-gray-700">
+          <Repeat className="w-4 h-4" /> Recorrentes
+          <span className="text-xs font-normal text-gray-400">({activeRules.length} ativas)</span>
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="p-4 space-y-3 border-t border-gray-100">
+          {rules.length === 0 && !isFormOpen && (
+            <p className="text-sm text-gray-400 text-center py-2">Nenhuma despesa recorrente cadastrada.</p>
+          )}
+
+          {rules.map(rule => (
+            <div key={rule.id} className={`flex items-center justify-between gap-2 ${rule.endMonth && rule.endMonth < currentMonth ? 'opacity-50' : ''}`}>
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{rule.description}</p>
+                <p className="text-xs text-gray-500">
+                  Dia {rule.dayOfMonth} • {rule.frequency === 'YEARLY' ? 'Anual' : 'Mensal'} • {accountName(rule.accountId)}
+                  {' • '}desde {formatMonth(rule.startMonth)}{rule.endMonth ? ` até ${formatMonth(rule.endMonth)}` : ''}
+                  {!rule.autoConfirm && ' • confirmação manual'}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <span className="font-semibold text-gray-900 text-sm whitespace-nowrap">{formatCurrency(rule.amount)}</span>
+                <button onClick={() => openForm(rule)} className="text-gray-300 hover:text-blue-500 transition-colors p-1.5" title="Editar">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDelete(rule)} className="text-gray-300 hover:text-red-500 transition-colors p-1.5" title="Excluir">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {isFormOpen ? (
+            <form onSubmit={handleSubmit} className="p-3 rounded-lg border border-gray-200 bg-gray-50 space-y-3">
+              <input type="text" required value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Ex: Aluguel, Netflix, Academia" className={inputClass} />
+              <div className="grid grid-cols-2 gap-2">
+                <input type="tel" inputMode="numeric" required value={amount} onChange={handleAmountChange} placeholder="0,00" className={inputClass} />
+                <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClass}>
+                  {accounts.filter(a => !a.archived || a.id === accountId).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClass}>
+                  {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+                <select value={frequency} onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency)} className={inputClass}>
+                  <option value="MONTHLY">Mensal</option>
+                  <option value="YEARLY">Anual</option>
+                </select>
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-xs text-gray-500">
+                <label>
+                  Dia
+                  <select value={dayOfMonth} onChange={(e) => setDayOfMonth(Number(e.target.value))} className={inputClass}>
+                    {Array.from({ length: 31 }, (_, i) => i + 1).map(d => <option key={d} value={d}>{d}</option>)}
+                  </select>
+                </label>
+                <label>
+                  Início
+                  <input type="month" required value={startMonth} onChange={(e) => setStartMonth(e.target.value)} className={inputClass} />
+                </label>
+                <label>
+                  Fim (opcional)
+                  <input type="month" value={endMonth} onChange={(e) => setEndMonth(e.target.value)} className={inputClass} />
+                </label>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={autoConfirm} onChange={(e) => setAutoConfirm(e.target.checked)} />
+                Lançar automaticamente (senão fica pendente até confirmar)
+              </label>
+              <div className="flex gap-2">
+                <button type="button" onClick={() => setIsFormOpen(false)} className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-semibold py-2 rounded-lg transition-all">
+                  Cancelar
+                </button>
+                <button type="submit" className="flex-1 bg-gray-900 hover:bg-black text-white text-sm font-semibold py-2 rounded-lg transition-all">
+                  {editing ? 'Salvar Regra' : 'Criar Regra'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              onClick={() => openForm(null)}
+              className="w-full flex items-center justify-center gap-1 p-2 rounded-lg border border-dashed border-gray-300 text-sm text-gray-500 hover:bg-gray-50 transition-all"
+            >
+              <Plus className="w-4 h-4" /> Nova recorrência
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurringManager;
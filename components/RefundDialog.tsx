@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Transaction, Cents } from '../types';
+import { formatCurrency, centsToInput, formatMoneyInput, parseMoneyInput } from '../services/money';
+import { Undo2, X } from 'lucide-react';
+
+interface RefundDialogProps {
+  transaction: Transaction;
+  remaining: Cents; // Valor ainda não estornado da compra
+  onConfirm: (amount: Cents, date: string) => void;
+  onCancel: () => void;
+}
+
+const RefundDialog: React.FC<RefundDialogProps> = ({ transaction, remaining, onConfirm, onCancel }) => {
+  const [amount, setAmount] = useState(centsToInput(remaining));
+  const [date, setDate] = useState(() => new Date().toLocaleDateString('sv'));
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setAmount(formatMoneyInput(e.target.value));
+  };
+
+  const val = amount ? parseMoneyInput(amount) : 0;
+  const isValid = val > 0 && val <= remaining && !!date;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onConfirm(val, date);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-end sm:items-center justify-center p-4" onClick={onCancel}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 space-y-4"
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+              <Undo2 className="w-5 h-5 text-emerald-600" /> Registrar estorno
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">
+              {transaction.description} • {formatCurrency(transaction.amount)}
+            </p>
+          </div>
+          <button type="button" onClick={onCancel} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Valor (R$)</label>
+            <input
+              type="tel"
+              inputMode="numeric"
+              value={amount}
+              onChange={handleAmountChange}
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Data</label>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-full px-2 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>Disponível para estorno: {formatCurrency(remaining)}</span>
+          <button
+            type="button"
+            onClick={() => setAmount(centsToInput(remaining))}
+            className="text-emerald-600 font-medium hover:text-emerald-700"
+          >
+            Estorno total
+          </button>
+        </div>
+        {val > remaining && (
+          <p className="text-xs text-red-600">O estorno não pode ser maior que o valor restante da compra.</p>
+        )}
+
+        <button
+          type="submit"
+          disabled={!isValid}
+          className="w-full font-semibold py-3 rounded-lg shadow-md transition-all text-white bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Confirmar Estorno
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default RefundDialog;
@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { BackupData } from '../types';
+import { exportDatabase } from '../services/db';
+import { ConflictPolicy, MergePlan, MergeStore, planMerge } from '../services/merge';
+import { formatCurrency } from '../services/money';
+import { Upload, X, AlertTriangle } from 'lucide-react';
+
+interface RestoreDialogProps {
+  data: BackupData; // Backup já migrado e validado
+  fileName: string;
+  onReplace: () => void;
+  onMerge: (changes: MergePlan['changes']) => void;
+  onCancel: () => void;
+}
+
+type RestoreMode = 'REPLACE' | 'MERGE';
+
+const formatDate = (dateStr: string) => {
+  const [year, month, day] = dateStr.split('-');
+  return `${day}/${month}/${year.slice(2)}`;
+};
+
+const STORE_LABELS: [MergeStore, string][] = [
+  ['transactions', 'Lançamentos'],
+  ['budgets', 'Orçamentos'],
+  ['categories', 'Categorias'],
+  ['accounts', 'Contas'],
+  ['recurringRules', 'Recorrências'],
+];
+
+const POLICY_LABELS: [ConflictPolicy, string][] = [
+  ['NEWEST', 'Mais recente vence'],
+  ['KEEP_LOCAL', 'Manter os deste aparelho'],
+  ['KEEP_INCOMING', 'Manter os do arquivo'],
+];
+
+const RestoreDialog: React.FC<RestoreDialogProps> = ({ data, fileName, onReplace, onMerge, onCancel }) => {
+  const [mode, setMode] = useState<RestoreMode>('MERGE');
+  const [policy, setPolicy] = useState<ConflictPolicy>('NEWEST');
+  const [local, setLocal] = useState<BackupData | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  // Possíveis duplicatas que o usuário decidiu importar mesmo assim
+  const [acceptedDuplicates, setAcceptedDuplicates] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    exportDatabase()
+      .then(setLocal)
+      .catch(error => {
+        console.error('Failed to read local data', error);
+        setLoadError(true);
+      });
+  }, []);
+
+  const plan = local ? planMerge(local, data, policy, acceptedDuplicates) : null;
+
+  const toggleDuplicate = (id: string) => {
+    const next = new Set(acceptedDuplicates);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setAcceptedDuplicates(next);
+  };
+
+  const handleConfirm = () => {
+    if (mode === 'REPLACE') onReplace();
+    else if (plan) onMerge(plan.changes);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-end sm:items-center justify-center p-4" onClick={onCancel}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 space-y-4 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+              <Upload className="w-5 h-5 text-blue-600" /> Restaurar backup
+            </h3>
+            <p className="text-sm text-gray-500 mt-1 break-all">
+              {fileName} • {data.transactions.length} lançamento(s)
+            </p>
+          </div>
+          <button type="button" onClick={onCancel} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {([['MERGE', 'Mesclar'], ['REPLACE', 'Substituir tudo']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setMode(value)}
+              className={`py-2 rounded-lg text-sm font-medium border transition-all ${
+                mode === value ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'REPLACE' ? (
+          <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            Todos os dados deste aparelho{local ? ` (${local.transactions.length} lançamento(s))` : ''} serão apagados
+            e trocados pelos do arquivo.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <p className="text-xs font-medium uppercase tracking-wide text-gray-500">Quando o mesmo registro mudou nos dois lados</p>
+              {POLICY_LABELS.map(([value, label]) => (
+                <label key={value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="radio" name="merge-policy" checked={policy === value} onChange={() => setPolicy(value)} />
+                  {label}
+                </label>
+              ))}
+            </div>
+
+            {loadError ? (
+              <p className="text-sm text-red-600">Não foi possível ler os dados deste aparelho para comparar.</p>
+            ) : !plan ? (
+              <p className="text-sm text-gray-400">Comparando com os dados deste aparelho...</p>
+            ) : (
+              <>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500">
+                      <th className="text-left font-medium py-1"></th>
+                      <th className="text-right font-medium py-1">Novos</th>
+                      <th className="text-right font-medium py-1">Atualizados</th>
+                      <th className="text-right font-medium py-1">Ignorados</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 text-gray-700">
+                    {STORE_LABELS.map(([store, label]) => (
+                      <tr key={store}>
+                        <td className="py-1">{label}</td>
+                        <td className="py-1 text-right text-emerald-600">{plan.counts[store].added}</td>
+                        <td className="py-1 text-right text-blue-600">{plan.counts[store].updated}</td>
+                        <td className="py-1 text-right text-gray-400">{plan.counts[store].skipped}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {plan.duplicates.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-xs text-amber-600 flex items-center gap-1">
+                      <AlertTriangle className="w-3.5 h-3.5" />
+                      {plan.duplicates.length} possível(is) duplicata(s): mesmo dia, valor e descrição com outro id.
+                      Marque para importar mesmo assim.
+                    </p>
+                    <div className="divide-y divide-gray-100 max-h-40 overflow-y-auto border border-gray-100 rounded-lg">
+                      {plan.duplicates.map(({ incoming }) => (
+                        <label key={incoming.id} className="px-3 py-2 flex items-center gap-2 text-sm cursor-pointer hover:bg-gray-50">
+                          <input
+                            type="checkbox"
+                            checked={acceptedDuplicates.has(incoming.id)}
+                            onChange={() => toggleDuplicate(incoming.id)}
+                          />
+                          <span className="flex-1 min-w-0 truncate text-gray-900">{incoming.description}</span>
+                          <span className="text-xs text-gray-500 whitespace-nowrap">
+                            {formatDate(incoming.date)} • {formatCurrency(incoming.amount)}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <p className="text-xs text-gray-400">
+                  Nada é apagado na mesclagem.
+                  {policy === 'KEEP_INCOMING' ? ' As preferências do arquivo também serão aplicadas.' : ' As preferências deste aparelho são mantidas.'}
+                </p>
+              </>
+            )}
+          </>
+        )}
+
+        <button
+          type="button"
+          onClick={handleConfirm}
+          disabled={mode === 'MERGE' && !plan}
+          className={`w-full font-semibold py-3 rounded-lg shadow-md transition-all text-white disabled:opacity-50 disabled:cursor-not-allowed ${
+            mode === 'REPLACE' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+          }`}
+        >
+          {mode === 'REPLACE' ? 'Apagar e restaurar' : 'Mesclar'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RestoreDialog;
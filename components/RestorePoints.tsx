@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { Snapshot, SnapshotReason } from '../types';
+import { getSnapshots, createSnapshot } from '../services/db';
+import { readBackup } from '../services/backup';
+import { formatCurrency } from '../services/money';
+import { History, X, ChevronDown, ChevronUp, RotateCcw, Plus } from 'lucide-react';
+
+interface RestorePointsProps {
+  onRestore: (snapshot: Snapshot) => void;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  DAILY: 'Diário',
+  MANUAL: 'Criado manualmente',
+  BEFORE_CLEAR: 'Antes de limpar tudo',
+  BEFORE_RESTORE: 'Antes de restaurar backup',
+  BEFORE_MERGE: 'Antes de mesclar backup',
+};
+
+const formatDate = (dateStr: string) => {
+  const [year, month, day] = dateStr.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Contagens e totais exibidos na prévia. Pontos antigos guardam valores em reais,
+// então passam pela mesma leitura da restauração antes de somar.
+const summarize = (snapshot: Snapshot) => {
+  const data = readBackup(snapshot.data).data ?? snapshot.data;
+  const { budgets, categories = [], accounts = [], recurringRules = [] } = data;
+  const transactions = data.transactions.filter(t => !t.deletedAt); // Lixeira fora dos totais
+  const dates = transactions.map(t => t.date).sort();
+  return {
+    counts: [
+      ['Lançamentos', transactions.length],
+      ['Contas', accounts.length],
+      ['Categorias', categories.length],
+      ['Recorrências', recurringRules.length],
+      ['Orçamentos', budgets.length],
+    ] as const,
+    expenses: transactions.filter(t => t.kind !== 'INCOME').reduce((acc, t) => acc + t.amount, 0),
+    income: transactions.filter(t => t.kind === 'INCOME').reduce((acc, t) => acc + t.amount, 0),
+    firstDate: dates[0],
+    lastDate: dates[dates.length - 1],
+  };
+};
+
+const RestorePoints: React.FC<RestorePointsProps> = ({ onRestore, onClose }) => {
+  const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    getSnapshots()
+      .then(setSnapshots)
+      .catch(error => {
+        console.error('Failed to load snapshots', error);
+        setLoadError(true);
+      });
+  }, []);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const snapshot = await createSnapshot('MANUAL');
+      setSnapshots(await getSnapshots());
+      setExpandedId(snapshot.id);
+    } catch (error) {
+      alert('Erro ao criar ponto de restauração: ' + error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRestore = (snapshot: Snapshot) => {
+    const message = `Voltar os dados para ${formatTimestamp(snapshot.createdAt)}? `
+      + 'Tudo o que foi feito depois será desfeito (um novo ponto de restauração é criado antes).';
+    if (window.confirm(message)) onRestore(snapshot);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-50 overflow-y-auto">
+      <div className="w-full max-w-md mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <History className="w-5 h-5 text-gray-500" /> Pontos de Restauração
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600" title="Fechar">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Cópias automáticas guardadas neste aparelho: uma por dia e outra antes de limpar, restaurar ou mesclar dados.
+          Não substituem o backup em arquivo.
+        </p>
+
+        <button
+          onClick={handleCreate}
+          disabled={isCreating}
+          className="w-full flex items-center justify-center gap-2 p-3 rounded-lg border border-dashed border-gray-300 text-sm text-gray-600 hover:bg-white transition-all disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" /> {isCreating ? 'Criando...' : 'Criar ponto agora'}
+        </button>
+
+        {loadError ? (
+          <p className="text-sm text-red-600 text-center py-6">Não foi possível carregar os pontos de restauração.</p>
+        ) : !snapshots ? (
+          <p className="text-sm text-gray-400 text-center py-6">Carregando...</p>
+        ) : snapshots.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-6">Nenhum ponto de restauração ainda.</p>
+        ) : (
+          <div className="bg-white rounded-2xl border border-gray-100 shadow-sm divide-y divide-gray-100 overflow-hidden">
+            {snapshots.map(snapshot => {
+              const isExpanded = expandedId === snapshot.id;
+              const summary = isExpanded ? summarize(snapshot) : null;
+              return (
+                <div key={snapshot.id}>
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : snapshot.id)}
+                    className="w-full px-4 py-3 flex items-center justify-between text-left hover:bg-gray-50 transition-all"
+                  >
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{formatTimestamp(snapshot.createdAt)}</p>
+                      <p className="text-xs text-gray-500">
+                        {REASON_LABELS[snapshot.reason]} • {snapshot.data.transactions.length} lançamento(s)
+                      </p>
+                    </div>
+                    {isExpanded ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+                  </button>
+
+                  {summary && (
+                    <div className="px-4 pb-4 space-y-3 text-sm text-gray-700">
+                      <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                        {summary.counts.map(([label, count]) => (
+                          <div key={label} className="flex justify-between">
+                            <span className="text-gray-500">{label}</span>
+                            <span className="font-medium">{count}</span>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="space-y-1">
+                        <div className="flex justify-between">
+                          <span className="text-gray-500">Total de gastos</span>
+                          <span className="font-semibold">{formatCurrency(summary.expenses)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-500">Total de receitas</span>
+                          <span className="font-semibold text-emerald-600">{formatCurrency(summary.income)}</span>
+                        </div>
+                        {summary.firstDate && (
+                          <p className="text-xs text-gray-400">
+                            Lançamentos de {formatDate(summary.firstDate)} a {formatDate(summary.lastDate)}
+                          </p>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handleRestore(snapshot)}
+                        className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold py-2 rounded-lg transition-all"
+                      >
+                        <RotateCcw className="w-4 h-4" /> Voltar para este ponto
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RestorePoints;
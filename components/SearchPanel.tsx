@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { Transaction, Category } from '../types';
+import { SearchQuery, SearchMonthGroup, searchTransactions, groupByMonth, isEmptyQuery } from '../services/search';
+import { formatCurrency, formatMoneyInput, parseMoneyInput } from '../services/money';
+import CategoryIcon from './CategoryIcon';
+import { Search, X, SlidersHorizontal } from 'lucide-react';
+
+interface SearchPanelProps {
+  categories: Category[];
+  onSelect: (t: Transaction) => void;
+  onClose: () => void;
+}
+
+const formatDate = (dateStr: string) => {
+  const [, month, day] = dateStr.split('-');
+  return `${day}/${month}`;
+};
+
+const formatMonth = (month: string) => {
+  const label = new Date(`${month}-02`).toLocaleString('pt-BR', { month: 'long', year: 'numeric' });
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+// Campo vazio = sem limite de valor
+const parseAmountFilter = (value: string) => value ? parseMoneyInput(value) : undefined;
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all text-sm bg-white';
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ categories, onSelect, onClose }) => {
+  const [text, setText] = useState('');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [groups, setGroups] = useState<SearchMonthGroup[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState(false);
+
+  const query: SearchQuery = {
+    text,
+    minAmount: parseAmountFilter(minAmount),
+    maxAmount: parseAmountFilter(maxAmount),
+    startDate: startDate || undefined,
+    endDate: endDate || undefined,
+  };
+
+  // Busca enquanto digita, com um pequeno atraso para não consultar a cada tecla
+  useEffect(() => {
+    if (isEmptyQuery(query)) {
+      setGroups([]);
+      return;
+    }
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchTransactions(query, categories);
+        if (cancelled) return;
+        setGroups(groupByMonth(results));
+        setSearchError(false);
+      } catch (error) {
+        console.error('Search failed', error);
+        if (cancelled) return;
+        setGroups([]);
+        setSearchError(true);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [text, minAmount, maxAmount, startDate, endDate, categories]);
+
+  const resultCount = groups.reduce((acc, g) => acc + g.transactions.length, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-50 overflow-y-auto">
+      <div className="w-full max-w-md mx-auto px-4 py-6">
+        <div className="flex items-center gap-2 mb-3">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              autoFocus
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Descrição ou categoria"
+              className={`${inputClass} pl-9`}
+            />
+          </div>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`p-2 rounded-lg border transition-all ${showFilters ? 'bg-gray-900 border-gray-900 text-white' : 'bg-white border-gray-300 text-gray-500'}`}
+            title="Filtros"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600" title="Fechar">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {showFilters && (
+          <div className="bg-white p-3 rounded-xl border border-gray-200 mb-4 space-y-2 text-xs text-gray-500">
+            <div className="grid grid-cols-2 gap-2">
+              <label>
+                Valor mínimo
+                <input type="tel" inputMode="numeric" value={minAmount} onChange={(e) => setMinAmount(formatMoneyInput(e.target.value))} placeholder="0,00" className={inputClass} />
+              </label>
+              <label>
+                Valor máximo
+                <input type="tel" inputMode="numeric" value={maxAmount} onChange={(e) => setMaxAmount(formatMoneyInput(e.target.value))} placeholder="0,00" className={inputClass} />
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <label>
+                De
+                <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+              </label>
+              <label>
+                Até
+                <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+              </label>
+            </div>
+            <p>Para um valor exato, informe o mesmo valor no mínimo e no máximo.</p>
+          </div>
+        )}
+
+        {isEmptyQuery(query) ? (
+          <p className="text-center text-sm text-gray-400 py-12">Busque em todos os meses por descrição, categoria, valor ou período.</p>
+        ) : !isSearching && searchError ? (
+          <p className="text-center text-sm text-red-600 py-12">Não foi possível fazer a busca. Tente novamente.</p>
+        ) : !isSearching && resultCount === 0 ? (
+          <p className="text-center text-sm text-gray-400 py-12">Nenhum lançamento encontrado.</p>
+        ) : (
+          <div className="space-y-4">
+            {resultCount > 0 && (
+              <p className="text-xs text-gray-400">{resultCount} {resultCount === 1 ? 'resultado' : 'resultados'}</p>
+            )}
+            {groups.map(group => (
+              <div key={group.month} className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+                <div className="px-4 py-3 border-b border-gray-100 bg-gray-50/50 flex items-center justify-between text-sm">
+                  <span className="font-semibold text-gray-700">{formatMonth(group.month)}</span>
+                  <span className="text-xs text-gray-500">
+                    {formatCurrency(group.spent)}
+                    {group.income > 0 && <span className="text-emerald-600"> • + {formatCurrency(group.income)}</span>}
+                  </span>
+                </div>
+                <div className="divide-y divide-gray-100">
+                  {group.transactions.map(t => {
+                    const isIncome = t.kind === 'INCOME';
+                    const isRefund = !!t.refundOf;
+                    const category = isIncome ? undefined : categories.find(c => c.id === t.category);
+                    return (
+                      <button
+                        key={t.id}
+                        onClick={() => onSelect(t)}
+                        className="w-full px-4 py-3 flex items-center justify-between gap-2 text-left hover:bg-gray-50 transition-colors"
+                      >
+                        <div className="flex items-center gap-3 min-w-0">
+                          {category && (
+                            <span style={{ color: category.color }} className="shrink-0">
+                              <CategoryIcon icon={category.icon} className="w-4 h-4" />
+                            </span>
+                          )}
+                          <div className="min-w-0">
+                            <p className="font-medium text-gray-900 truncate">{t.description}</p>
+                            <p className="text-xs text-gray-500">
+                              {formatDate(t.date)}{category ? ` • ${category.name}` : isIncome ? ' • Receita' : ''}
+                            </p>
+                          </div>
+                        </div>
+                        <span className={`font-semibold whitespace-nowrap text-sm ${isIncome || isRefund ? 'text-emerald-600' : 'text-gray-900'}`}>
+                          {isIncome || isRefund ? '+' : '-'} {formatCurrency(Math.abs(t.amount))}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
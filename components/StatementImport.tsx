@@ -0,0 +1,264 @@
+import React, { useState, useRef } from 'react';
+import { Transaction, Account } from '../types';
+import { getTransactionsByDateRange } from '../services/db';
+import { formatCurrency } from '../services/money';
+import {
+  ColumnMapping, AmountSign, StatementRow,
+  parseCsv, guessMapping, buildStatementRows, guessAccountForValue, isDuplicate, toTransaction
+} from '../services/statementImport';
+import { FileUp, X, AlertTriangle } from 'lucide-react';
+
+interface StatementImportProps {
+  accounts: Account[];
+  onImport: (transactions: Omit<Transaction, 'id' | 'createdAt'>[]) => Promise<void>;
+  onClose: () => void;
+}
+
+interface PreviewRow extends StatementRow {
+  accountId: string;
+  checked: boolean;
+  duplicate: boolean;
+}
+
+const formatDate = (dateStr: string) => {
+  const [year, month, day] = dateStr.split('-');
+  return `${day}/${month}/${year.slice(2)}`;
+};
+
+const selectClass = 'w-full px-2 py-1.5 rounded border border-gray-200 bg-white text-gray-800 text-sm';
+
+const StatementImport: React.FC<StatementImportProps> = ({ accounts, onImport, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const activeAccounts = accounts.filter(a => !a.archived);
+
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({ description: -1, amount: -1, date: -1, account: -1 });
+  const [sign, setSign] = useState<AmountSign>('NEGATIVE_IS_EXPENSE');
+  const [fixedAccountId, setFixedAccountId] = useState(activeAccounts[0]?.id || '');
+  // Coluna de conta: cada valor distinto aponta para uma conta cadastrada
+  const [valueAccounts, setValueAccounts] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<PreviewRow[] | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  const columnLabels = Array.from({ length: columnCount }, (_, i) =>
+    hasHeader && rows[0]?.[i] ? rows[0][i] : `Coluna ${i + 1}`
+  );
+  const distinctAccountValues = mapping.account >= 0
+    ? Array.from(new Set(rows.slice(hasHeader ? 1 : 0).map(r => (r[mapping.account] || '').trim())))
+    : [];
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const parsed = parseCsv(event.target?.result as string);
+      if (parsed.length === 0) {
+        alert('Arquivo vazio ou em formato não reconhecido.');
+        return;
+      }
+      setFileName(file.name);
+      setRows(parsed);
+      setMapping(guessMapping(parsed[0]));
+      setValueAccounts({});
+      setPreview(null);
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const accountIdForValue = (value: string) =>
+    valueAccounts[value] || guessAccountForValue(value, accounts);
+
+  // Cartão não recebe receitas: pagamentos da fatura e estornos ficam de fora
+  const isBlockedIncome = (row: StatementRow, accountId: string) =>
+    row.kind === 'INCOME' && accounts.find(a => a.id === accountId)?.type === 'CREDIT_CARD';
+
+  const buildPreview = async () => {
+    const statementRows = buildStatementRows(rows, mapping, sign, hasHeader);
+    const dates = statementRows.filter(r => !r.error).map(r => r.date).sort();
+    const existing = dates.length > 0 ? await getTransactionsByDateRange(dates[0], dates[dates.length - 1]) : [];
+
+    setPreview(statementRows.map(row => {
+      const accountId = mapping.account >= 0 ? accountIdForValue(row.accountValue) : fixedAccountId;
+      const duplicate = !row.error && isDuplicate(row, existing);
+      return {
+        ...row,
+        accountId,
+        duplicate,
+        checked: !row.error && !duplicate && !isBlockedIncome(row, accountId),
+      };
+    }));
+  };
+
+  const toggleRow = (index: number) => {
+    if (!preview) return;
+    setPreview(preview.map((row, i) => i === index ? { ...row, checked: !row.checked } : row));
+  };
+
+  const selected = (preview || []).filter(r => r.checked);
+  const selectedTotal = selected.reduce((acc, r) => acc + (r.kind === 'INCOME' ? -r.amount : r.amount), 0);
+
+  const handleConfirm = async () => {
+    if (selected.length === 0) return;
+    setIsImporting(true);
+    try {
+      await onImport(selected.map(row => toTransaction(row, accounts.find(a => a.id === row.accountId)!)));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const isMappingValid = mapping.description >= 0 && mapping.amount >= 0 && mapping.date >= 0
+    && (mapping.account >= 0 || !!fixedAccountId);
+
+  const mappingField = (key: keyof ColumnMapping, label: string, optionalLabel?: string) => (
+    <label className="block text-xs text-gray-500">
+      {label}
+      <select
+        value={mapping[key]}
+        onChange={(e) => {
+          setMapping({ ...mapping, [key]: Number(e.target.value) });
+          setPreview(null);
+        }}
+        className={selectClass}
+      >
+        <option value={-1}>{optionalLabel || '— Selecione —'}</option>
+        {columnLabels.map((columnLabel, i) => <option key={i} value={i}>{columnLabel}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-50 overflow-y-auto">
+      <div className="w-full max-w-md mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <FileUp className="w-5 h-5 text-gray-500" /> Importar Extrato
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600" title="Fechar">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm space-y-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center justify-center gap-2 p-3 rounded-lg border border-dashed border-gray-300 text-sm text-gray-600 hover:bg-gray-50 transition-all"
+          >
+            <FileUp className="w-4 h-4" /> {fileName || 'Escolher arquivo CSV do banco ou cartão'}
+          </button>
+          <input type="file" accept=".csv,.txt" ref={fileInputRef} className="hidden" onChange={handleFileChange} />
+          <p className="text-xs text-gray-400">Os lançamentos são adicionados aos existentes; nada é apagado.</p>
+        </div>
+
+        {rows.length > 0 && (
+          <div className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm space-y-3">
+            <h3 className="text-xs font-medium uppercase tracking-wide text-gray-500">Colunas</h3>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => { setHasHeader(e.target.checked); setPreview(null); }} />
+              Primeira linha é cabeçalho
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {mappingField('date', 'Data')}
+              {mappingField('amount', 'Valor')}
+              {mappingField('description', 'Descrição')}
+              {mappingField('account', 'Conta / método', 'Mesma conta para todos')}
+            </div>
+
+            {mapping.account < 0 ? (
+              <label className="block text-xs text-gray-500">
+                Conta
+                <select value={fixedAccountId} onChange={(e) => { setFixedAccountId(e.target.value); setPreview(null); }} className={selectClass}>
+                  {activeAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+              </label>
+            ) : (
+              <div className="space-y-1">
+                {distinctAccountValues.slice(0, 12).map(value => (
+                  <label key={value} className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                    <span className="truncate">{value || '(vazio)'}</span>
+                    <select
+                      value={accountIdForValue(value)}
+                      onChange={(e) => { setValueAccounts({ ...valueAccounts, [value]: e.target.value }); setPreview(null); }}
+                      className={`${selectClass} w-40`}
+                    >
+                      {activeAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <label className="block text-xs text-gray-500">
+              Sinal dos valores
+              <select value={sign} onChange={(e) => { setSign(e.target.value as AmountSign); setPreview(null); }} className={selectClass}>
+                <option value="NEGATIVE_IS_EXPENSE">Negativos são gastos (extrato bancário)</option>
+                <option value="POSITIVE_IS_EXPENSE">Positivos são gastos (fatura do cartão)</option>
+              </select>
+            </label>
+
+            <button
+              onClick={buildPreview}
+              disabled={!isMappingValid}
+              className="w-full bg-gray-900 hover:bg-black text-white text-sm font-semibold py-2 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Pré-visualizar
+            </button>
+          </div>
+        )}
+
+        {preview && (
+          <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-100 bg-gray-50/50 flex items-center justify-between text-sm">
+              <span className="font-semibold text-gray-700">{selected.length} de {preview.length} selecionados</span>
+              <span className="text-xs text-gray-500">Saldo: {formatCurrency(selectedTotal)}</span>
+            </div>
+            <div className="divide-y divide-gray-100 max-h-[50vh] overflow-y-auto">
+              {preview.map((row, i) => {
+                const blocked = !!row.error || isBlockedIncome(row, row.accountId);
+                return (
+                  <label key={i} className={`px-4 py-2 flex items-center gap-3 text-sm ${blocked ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'}`}>
+                    <input type="checkbox" checked={row.checked} disabled={blocked} onChange={() => toggleRow(i)} />
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate text-gray-900">{row.description || `Linha ${row.line}`}</p>
+                      <p className="text-xs text-gray-500">
+                        {row.error
+                          ? <span className="text-red-600">Linha {row.line}: {row.error}</span>
+                          : <>
+                              {formatDate(row.date)} • {accounts.find(a => a.id === row.accountId)?.name}
+                              {row.duplicate && <span className="text-amber-600"> • <AlertTriangle className="w-3 h-3 inline" /> já existe</span>}
+                              {isBlockedIncome(row, row.accountId) && ' • pagamento/estorno do cartão'}
+                            </>}
+                      </p>
+                    </div>
+                    {!row.error && (
+                      <span className={`font-semibold whitespace-nowrap ${row.kind === 'INCOME' ? 'text-emerald-600' : 'text-gray-900'}`}>
+                        {row.kind === 'INCOME' ? '+' : '-'} {formatCurrency(row.amount)}
+                      </span>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+            <div className="p-4 border-t border-gray-100">
+              <button
+                onClick={handleConfirm}
+                disabled={selected.length === 0 || isImporting}
+                className="w-full bg-emerald-600 hover:bg-emerald-700 text-white font-semibold py-3 rounded-lg shadow-md transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isImporting ? 'Importando...' : `Importar ${selected.length} lançamento${selected.length === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StatementImport;
@@ -1,59 +1,92 @@
 import React, { useState } from 'react';
-import { Pencil, Check, CreditCard, Banknote } from 'lucide-react';
+import { Category, Account } from '../types';
+import { InvoiceSummary } from '../services/billing';
+import { SpendingPace } from '../services/pace';
+import { formatCurrency, centsToInput, formatMoneyInput, parseMoneyInput } from '../services/money';
+import CategoryIcon from './CategoryIcon';
+import AccountIcon from './AccountIcon';
+import PaceChart from './PaceChart';
+import { Pencil, Check, Receipt, TrendingUp, SlidersHorizontal } from 'lucide-react';
+
+export interface CategoryTotal {
+  category: Category;
+  total: number;
+  limit: number; // 0 = sem limite definido para a categoria
+}
+
+export interface AccountTotal {
+  account: Account;
+  total: number; // Gastos do mês (ou da fatura, na visão por fatura) pagos com a conta
+}
 
 interface SummaryProps {
   totalSpent: number;
-  spentDebit: number;
-  spentCredit: number;
+  totalIncome: number;
+  balanceMode: boolean;
+  accountTotals: AccountTotal[];
+  categoryTotals: CategoryTotal[];
+  pace: SpendingPace;
+  invoices: InvoiceSummary[];
+  isInvoiceView: boolean;
+  isFiltered: boolean; // Totais calculados só com os lançamentos filtrados no histórico
   limit: number;
   onUpdateLimit: (newLimit: number) => void;
+  onUpdateCategoryLimits: (limits: Record<string, number>) => void;
 }
 
-const formatCurrency = (val: number) => 
-  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+const formatDate = (dateStr: string) => {
+  const [, month, day] = dateStr.split('-');
+  return `${day}/${month}`;
+};
 
-const Summary: React.FC<SummaryProps> = ({ totalSpent, spentDebit, spentCredit, limit, onUpdateLimit }) => {
+// Mesmos limiares para o limite global e os limites por categoria
+const getBudgetColors = (percentage: number) => {
+  if (percentage >= 100) return { progressColor: 'bg-red-500', remainingTextColor: 'text-red-600' };
+  if (percentage > 75) return { progressColor: 'bg-orange-500', remainingTextColor: 'text-orange-600' };
+  return { progressColor: 'bg-emerald-500', remainingTextColor: 'text-emerald-600' };
+};
+
+const Summary: React.FC<SummaryProps> = ({ 
+  totalSpent, 
+  totalIncome,
+  balanceMode,
+  accountTotals,
+  categoryTotals, 
+  pace,
+  invoices,
+  isInvoiceView,
+  isFiltered,
+  limit, 
+  onUpdateLimit, 
+  onUpdateCategoryLimits 
+}) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState('');
+  const [isEditingCategoryLimits, setIsEditingCategoryLimits] = useState(false);
+  const [categoryLimitValues, setCategoryLimitValues] = useState<Record<string, string>>({});
 
   const remaining = limit - totalSpent;
+  // Modo saldo: o destaque é receitas - gastos; o limite segue como teto de gastos
+  const balance = totalIncome - totalSpent;
   const percentage = limit > 0 ? Math.min((totalSpent / limit) * 100, 100) : 0;
   
   // Color logic
-  let progressColor = 'bg-emerald-500';
-  let remainingTextColor = 'text-emerald-600';
-  
-  if (percentage > 75) {
-    progressColor = 'bg-orange-500';
-    remainingTextColor = 'text-orange-600';
-  }
-  if (percentage >= 100) {
-    progressColor = 'bg-red-500';
-    remainingTextColor = 'text-red-600';
-  }
+  const { progressColor, remainingTextColor } = getBudgetColors(percentage);
 
   const startEditing = () => {
     // Ao iniciar edição, formata o valor atual
-    setEditValue(limit.toLocaleString('pt-BR', { minimumFractionDigits: 2 }));
+    setEditValue(centsToInput(limit));
     setIsEditing(true);
   };
 
   const handleEditChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.replace(/\D/g, '');
-    if (value === '') {
-      setEditValue('');
-      return;
-    }
-    const numberValue = parseInt(value, 10) / 100;
-    setEditValue(numberValue.toLocaleString('pt-BR', { minimumFractionDigits: 2 }));
+    setEditValue(formatMoneyInput(e.target.value));
   };
 
   const handleSave = () => {
     if (!editValue) return;
     
-    // Converte a string formatada "1.250,50" -> 1250.50
-    const rawValue = editValue.replace(/\./g, '').replace(',', '.');
-    const val = parseFloat(rawValue);
+    const val = parseMoneyInput(editValue);
 
     if (!isNaN(val) && val >= 0) {
       onUpdateLimit(val);
@@ -61,15 +94,59 @@ const Summary: React.FC<SummaryProps> = ({ totalSpent, spentDebit, spentCredit,
     setIsEditing(false);
   };
 
+  const startEditingCategoryLimits = () => {
+    const values: Record<string, string> = {};
+    categoryTotals.forEach(({ category, limit: categoryLimit }) => {
+      values[category.id] = categoryLimit > 0
+        ? centsToInput(categoryLimit)
+        : '';
+    });
+    setCategoryLimitValues(values);
+    setIsEditingCategoryLimits(true);
+  };
+
+  const handleSaveCategoryLimits = () => {
+    const limits: Record<string, number> = {};
+    Object.entries(categoryLimitValues).forEach(([categoryId, value]) => {
+      const val = value ? parseMoneyInput(value) : 0;
+      // Campo vazio ou zero remove o limite da categoria
+      if (!isNaN(val) && val > 0) limits[categoryId] = val;
+    });
+    onUpdateCategoryLimits(limits);
+    setIsEditingCategoryLimits(false);
+  };
+
+  // Fora do modo de edição, só aparecem categorias com gasto ou limite
+  const visibleCategoryTotals = isEditingCategoryLimits
+    ? categoryTotals
+    : categoryTotals.filter(c => c.total > 0 || c.limit > 0);
+
   return (
     <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 mb-6">
+      {isFiltered && (
+        <div className="flex items-center gap-1.5 mb-3 text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-1.5">
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+          Resumo considerando apenas os lançamentos filtrados
+        </div>
+      )}
       {/* Top Section: Remaining & Limit */}
       <div className="flex justify-between items-start mb-4">
         <div>
-          <h2 className="text-gray-500 text-sm font-medium uppercase tracking-wide">Saldo Restante</h2>
-          <div className={`text-4xl font-bold mt-1 ${remainingTextColor}`}>
-            {formatCurrency(remaining)}
-          </div>
+          {balanceMode ? (
+            <>
+              <h2 className="text-gray-500 text-sm font-medium uppercase tracking-wide">Saldo do Mês</h2>
+              <div className={`text-4xl font-bold mt-1 ${balance >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                {formatCurrency(balance)}
+              </div>
+            </>
+          ) : (
+            <>
+              <h2 className="text-gray-500 text-sm font-medium uppercase tracking-wide">Saldo Restante</h2>
+              <div className={`text-4xl font-bold mt-1 ${remainingTextColor}`}>
+                {formatCurrency(remaining)}
+              </div>
+            </>
+          )}
         </div>
         <div className="text-right">
           <div className="text-gray-500 text-xs uppercase tracking-wide mb-1">Limite Mensal</div>
@@ -111,30 +188,170 @@ const Summary: React.FC<SummaryProps> = ({ totalSpent, spentDebit, spentCredit,
             className={`shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center transition-all duration-500 ${progressColor}`}
           ></div>
         </div>
+        {balanceMode && limit > 0 && (
+          <div className={`text-xs text-right ${remainingTextColor}`}>
+            Disponível no limite: {formatCurrency(remaining)}
+          </div>
+        )}
       </div>
 
+      {/* Ritmo de gastos: curva acumulada x linha ideal do limite */}
+      <PaceChart pace={pace} limit={limit} />
+
       {/* Breakdown Section */}
       <div className="grid grid-cols-2 gap-3 pt-4 border-t border-gray-100">
-        <div className="bg-emerald-50 p-3 rounded-xl border border-emerald-100 flex flex-col">
-          <div className="flex items-center gap-2 mb-1 text-emerald-700 font-medium text-xs uppercase">
-            <Banknote className="w-3.5 h-3.5" />
-            Débito
-          </div>
-          <span className="text-lg font-bold text-gray-800">
-            {formatCurrency(spentDebit)}
-          </span>
-        </div>
+        {accountTotals.length === 0 && (
+          <p className="col-span-2 text-xs text-gray-400">Nenhum gasto nas contas este mês.</p>
+        )}
 
-        <div className="bg-blue-50 p-3 rounded-xl border border-blue-100 flex flex-col">
-          <div className="flex items-center gap-2 mb-1 text-blue-700 font-medium text-xs uppercase">
-            <CreditCard className="w-3.5 h-3.5" />
-            Crédito
+        {accountTotals.map(({ account, total }) => {
+          const usage = account.limit ? Math.min((total / account.limit) * 100, 100) : 0;
+          return (
+            <div
+              key={account.id}
+              className="p-3 rounded-xl border flex flex-col"
+              style={{ backgroundColor: `${account.color}0d`, borderColor: `${account.color}33` }}
+            >
+              <div className="flex items-center gap-2 mb-1 font-medium text-xs uppercase truncate" style={{ color: account.color }}>
+                <AccountIcon type={account.type} className="w-3.5 h-3.5 shrink-0" />
+                {account.name}{isInvoiceView && account.type === 'CREDIT_CARD' ? ' (fatura)' : ''}
+              </div>
+              <span className="text-lg font-bold text-gray-800">
+                {formatCurrency(total)}
+              </span>
+              {!!account.limit && (
+                <>
+                  <div className="overflow-hidden h-1 mt-1 rounded bg-gray-100">
+                    <div style={{ width: `${usage}%` }} className={`h-full ${getBudgetColors(usage).progressColor}`}></div>
+                  </div>
+                  <span className="text-[10px] text-gray-400 mt-0.5">de {formatCurrency(account.limit)}</span>
+                </>
+              )}
+            </div>
+          );
+        })}
+
+        {(balanceMode || totalIncome > 0) && (
+          <div className="col-span-2 bg-white p-3 rounded-xl border border-emerald-200 flex items-center justify-between">
+            <div className="flex items-center gap-2 text-emerald-700 font-medium text-xs uppercase">
+              <TrendingUp className="w-3.5 h-3.5" />
+              Receitas
+            </div>
+            <span className="text-lg font-bold text-emerald-700">
+              + {formatCurrency(totalIncome)}
+            </span>
           </div>
-          <span className="text-lg font-bold text-gray-800">
-            {formatCurrency(spentCredit)}
-          </span>
+        )}
+      </div>
+
+      {/* Category Breakdown */}
+      <div className="pt-4 mt-4 border-t border-gray-100 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-gray-500 text-xs font-medium uppercase tracking-wide">Por Categoria</h3>
+          {isEditingCategoryLimits ? (
+            <button onClick={handleSaveCategoryLimits} className="flex items-center gap-1 text-xs font-medium text-emerald-600 hover:text-emerald-700">
+              <Check className="w-4 h-4" /> Salvar limites
+            </button>
+          ) : (
+            <button onClick={startEditingCategoryLimits} className="flex items-center gap-1 text-xs text-gray-400 hover:text-gray-600">
+              <Pencil className="w-3 h-3" /> Limites
+            </button>
+          )}
         </div>
+
+        {visibleCategoryTotals.length === 0 && (
+          <p className="text-xs text-gray-400">Nenhum gasto por categoria este mês.</p>
+        )}
+
+        {visibleCategoryTotals.map(({ category, total, limit: categoryLimit }) => {
+          const hasLimit = categoryLimit > 0;
+          // Com limite, a barra mostra o consumo do limite; sem limite, a fatia do total gasto
+          const share = hasLimit
+            ? Math.min((total / categoryLimit) * 100, 100)
+            : totalSpent > 0 ? (total / totalSpent) * 100 : 0;
+          const colors = getBudgetColors(share);
+
+          return (
+            <div key={category.id}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="flex items-center gap-2 text-gray-700 font-medium">
+                  <span style={{ color: category.color }}>
+                    <CategoryIcon icon={category.icon} className="w-4 h-4" />
+                  </span>
+                  {category.name}
+                </span>
+                {isEditingCategoryLimits ? (
+                  <input
+                    type="tel"
+                    inputMode="numeric"
+                    value={categoryLimitValues[category.id] || ''}
+                    onChange={(e) => setCategoryLimitValues({ ...categoryLimitValues, [category.id]: formatMoneyInput(e.target.value) })}
+                    className="w-24 text-right border-b border-gray-300 focus:border-gray-900 outline-none font-semibold text-gray-900"
+                    placeholder="Sem limite"
+                  />
+                ) : (
+                  <span className="text-gray-900 font-semibold">
+                    {formatCurrency(total)}
+                    <span className="text-xs text-gray-400 font-normal ml-1">
+                      {hasLimit ? `/ ${formatCurrency(categoryLimit)}` : `${share.toFixed(0)}%`}
+                    </span>
+                  </span>
+                )}
+              </div>
+              {!isEditingCategoryLimits && (
+                <>
+                  <div className="overflow-hidden h-1.5 rounded bg-gray-100">
+                    <div
+                      style={hasLimit ? { width: `${share}%` } : { width: `${share}%`, backgroundColor: category.color }}
+                      className={`h-full transition-all duration-500 ${hasLimit ? colors.progressColor : ''}`}
+                    ></div>
+                  </div>
+                  {hasLimit && (
+                    <div className={`text-xs mt-1 text-right ${colors.remainingTextColor}`}>
+                      Restante: {formatCurrency(categoryLimit - total)}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
       </div>
+
+      {/* Credit Card Invoices */}
+      {invoices.some(i => i.open.total > 0 || i.closed.total > 0) && (
+        <div className="pt-4 mt-4 border-t border-gray-100 space-y-3">
+          <h3 className="text-gray-500 text-xs font-medium uppercase tracking-wide">Faturas do Cartão</h3>
+          {invoices
+            .filter(i => i.open.total > 0 || i.closed.total > 0)
+            .map(({ card, open, closed }) => {
+              const today = new Date().toLocaleDateString('sv');
+              const isOverdue = closed.dueDate < today;
+              return (
+                <div key={card.id} className="p-3 rounded-xl border border-blue-100 bg-blue-50/50">
+                  <div className="flex items-center gap-2 mb-2 text-blue-700 font-medium text-xs uppercase">
+                    <Receipt className="w-3.5 h-3.5" />
+                    {card.name}
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <div className="text-xs text-gray-500">Fatura aberta</div>
+                      <div className="font-bold text-gray-800">{formatCurrency(open.total)}</div>
+                      <div className="text-xs text-gray-400">Fecha em {formatDate(open.closingDate)}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-500">Fatura fechada</div>
+                      <div className="font-bold text-gray-800">{formatCurrency(closed.total)}</div>
+                      <div className={`text-xs ${isOverdue ? 'text-gray-400' : 'text-orange-600 font-medium'}`}>
+                        {isOverdue ? 'Venceu em' : 'Vence em'} {formatDate(closed.dueDate)}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+        </div>
+      )}
     </div>
   );
 };
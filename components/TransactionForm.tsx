@@ -1,26 +1,68 @@
 import React, { useState, useEffect } from 'react';
-import { PaymentMethod, Transaction } from '../types';
-import { PlusCircle, CreditCard, Banknote, Save, X } from 'lucide-react';
+import { Transaction, TransactionKind, Category, Account, AppSettings, ForeignCurrency } from '../types';
+import { UNCATEGORIZED_ID, DEFAULT_DEBIT_ACCOUNT_ID, getAccountMethod } from '../services/db';
+import { MAX_INSTALLMENTS, splitAmount } from '../services/installments';
+import {
+  FOREIGN_CURRENCIES, formatCurrency, centsToInput, formatMoneyInput, parseMoneyInput,
+  convertToBRL, MAX_IOF_RATE, isValidIofRate, parseDecimalInput, formatDecimal
+} from '../services/money';
+import { RecurrenceScope } from '../services/recurring';
+import CategoryIcon, { CATEGORY_ICONS, CATEGORY_COLORS } from './CategoryIcon';
+import AccountIcon from './AccountIcon';
+import ChangeHistory from './ChangeHistory';
+import { PlusCircle, Save, X, Plus, TrendingDown, TrendingUp } from 'lucide-react';
 
 interface TransactionFormProps {
   initialData?: Transaction | null;
-  onAdd: (t: Omit<Transaction, 'id' | 'createdAt'>) => void;
-  onUpdate: (id: string, t: Omit<Transaction, 'id' | 'createdAt'>) => void;
+  categories: Category[];
+  accounts: Account[];
+  onAdd: (t: Omit<Transaction, 'id' | 'createdAt'>) => Promise<void>;
+  onUpdate: (id: string, t: Omit<Transaction, 'id' | 'createdAt'>, scope?: RecurrenceScope) => Promise<void>;
   onCancelEdit: () => void;
+  onRevert: (version: Transaction) => Promise<void>; // Volta para uma versão do histórico de alterações
+  onAddCategory: (c: Omit<Category, 'id' | 'createdAt'>) => Promise<Category>;
+  exchangeRates: AppSettings['exchangeRates']; // Sugestão de cotação por moeda
+  defaultIofRate: number;
 }
 
 const TransactionForm: React.FC<TransactionFormProps> = ({ 
   initialData, 
+  categories,
+  accounts,
   onAdd, 
   onUpdate, 
-  onCancelEdit 
+  onCancelEdit,
+  onRevert,
+  onAddCategory,
+  exchangeRates,
+  defaultIofRate
 }) => {
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
-  const [method, setMethod] = useState<PaymentMethod>('DEBIT');
+  const [kind, setKind] = useState<TransactionKind>('EXPENSE');
+  const [accountId, setAccountId] = useState(DEFAULT_DEBIT_ACCOUNT_ID);
+  const [category, setCategory] = useState(UNCATEGORIZED_ID);
+  const [installmentCount, setInstallmentCount] = useState(1);
+  const [recurrenceScope, setRecurrenceScope] = useState<RecurrenceScope>('THIS');
   const [date, setDate] = useState('');
   const [time, setTime] = useState('');
 
+  // Moeda estrangeira: o valor digitado está na moeda escolhida e é convertido para reais
+  const [currency, setCurrency] = useState<ForeignCurrency | 'BRL'>('BRL');
+  const [exchangeRate, setExchangeRate] = useState('');
+  const [applyIof, setApplyIof] = useState(true);
+  const [iofPercent, setIofPercent] = useState('');
+
+  // Gravação em andamento e falha da última tentativa (o formulário continua preenchido)
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Criação rápida de categoria
+  const [isCreatingCategory, setIsCreatingCategory] = useState(false);
+  const [newCategoryName, setNewCategoryName] = useState('');
+  const [newCategoryColor, setNewCategoryColor] = useState(CATEGORY_COLORS[0]);
+  const [newCategoryIcon, setNewCategoryIcon] = useState('tag');
+
   // Define data/hora atuais ao montar ou resetar
   const setNow = () => {
     const now = new Date();
@@ -32,18 +74,36 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
   };
 
   useEffect(() => {
+    setSaveError(null);
     if (initialData) {
       setDescription(initialData.description);
       // Formata o valor existente para o padrão brasileiro (Ex: 1250.50 vira 1.250,50)
-      setAmount(initialData.amount.toLocaleString('pt-BR', { minimumFractionDigits: 2 }));
-      setMethod(initialData.method);
+      if (initialData.originalCurrency && initialData.originalAmount !== undefined && initialData.exchangeRate) {
+        setCurrency(initialData.originalCurrency);
+        setAmount(centsToInput(initialData.originalAmount));
+        setExchangeRate(formatDecimal(initialData.exchangeRate));
+        setApplyIof(initialData.iofRate !== undefined);
+        setIofPercent(formatDecimal((initialData.iofRate ?? defaultIofRate) * 100, 2));
+      } else {
+        setCurrency('BRL');
+        setAmount(centsToInput(initialData.amount));
+      }
+      setKind(initialData.kind || 'EXPENSE');
+      setAccountId(initialData.accountId);
+      setCategory(initialData.category || UNCATEGORIZED_ID);
+      setInstallmentCount(initialData.installmentCount || 1);
+      setRecurrenceScope('THIS');
       setDate(initialData.date);
       setTime(initialData.time || '12:00');
     } else {
       setDescription('');
       setAmount('');
+      setCurrency('BRL');
       setNow(); 
-      setMethod('DEBIT');
+      setKind('EXPENSE');
+      setAccountId(DEFAULT_DEBIT_ACCOUNT_ID);
+      setCategory(UNCATEGORIZED_ID);
+      setInstallmentCount(1);
     }
   }, [initialData]);
 
@@ -52,56 +112,139 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
   }, []);
 
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    // Remove tudo que não é dígito
-    const value = e.target.value.replace(/\D/g, '');
-    
-    if (value === '') {
-      setAmount('');
-      return;
-    }
+    setAmount(formatMoneyInput(e.target.value));
+  };
+
+  const handleCreateCategory = async () => {
+    const name = newCategoryName.trim();
+    if (!name) return;
+
+    const created = await onAddCategory({ name, color: newCategoryColor, icon: newCategoryIcon });
+    setCategory(created.id);
+    setNewCategoryName('');
+    setIsCreatingCategory(false);
+  };
 
-    // Converte para número (centavos) e formata
-    const numberValue = parseInt(value, 10) / 100;
-    setAmount(numberValue.toLocaleString('pt-BR', { minimumFractionDigits: 2 }));
+  const handleCurrencyChange = (c: ForeignCurrency | 'BRL') => {
+    setCurrency(c);
+    if (c === 'BRL') return;
+    const suggested = exchangeRates[c];
+    setExchangeRate(suggested ? formatDecimal(suggested) : '');
+    setApplyIof(true);
+    setIofPercent(formatDecimal(defaultIofRate * 100, 2));
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (isSaving) return;
     if (!description || !amount || !date || !time) return;
 
-    // Converte a string formatada "1.250,50" de volta para float 1250.50
-    // 1. Remove pontos de milhar
-    // 2. Troca vírgula decimal por ponto
-    const rawValue = amount.replace(/\./g, '').replace(',', '.');
-    const val = parseFloat(rawValue);
-    
+    // "1.250,50" -> 125050 centavos
+    const val = parseMoneyInput(amount);
+
     if (isNaN(val) || val <= 0) return;
 
+    // Receitas não têm categoria nem parcelas; o método vem do tipo da conta
+    const isIncome = kind === 'INCOME';
+    const account = accounts.find(a => a.id === accountId);
+    if (!account) return;
+    const method = getAccountMethod(account);
+
+    if (isForeign && (!(rate > 0) || (iofRate !== undefined && !isValidIofRate(iofRate)))) return;
+
+    // Parcelado: amount é o valor total e date a data da primeira parcela
     const formData = {
       description,
-      amount: val,
+      amount: isForeign ? convertToBRL(val, rate, iofRate) : val,
+      ...(isForeign && { originalCurrency: currency, originalAmount: val, exchangeRate: rate, iofRate }),
+      kind,
+      accountId,
       method,
+      category: isIncome ? UNCATEGORIZED_ID : category,
       date,
-      time
+      time,
+      installmentCount: method === 'CREDIT' && installmentCount > 1 ? installmentCount : undefined
     };
 
-    if (initialData) {
-      onUpdate(initialData.id, formData);
-    } else {
-      onAdd(formData);
-      setDescription('');
-      setAmount('');
-      setNow();
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      if (initialData) {
+        await onUpdate(initialData.id, formData, initialData.recurringRuleId ? recurrenceScope : undefined);
+        return;
+      }
+      await onAdd(formData);
+    } catch (error) {
+      console.error('Failed to save transaction', error);
+      setSaveError(`Não foi possível salvar: ${error}`);
+      return;
+    } finally {
+      setIsSaving(false);
     }
+
+    // Novo lançamento salvo: limpa para o próximo, mantendo conta e moeda
+    setDescription('');
+    setAmount('');
+    setCategory(UNCATEGORIZED_ID);
+    setInstallmentCount(1);
+    setNow();
+  };
+
+  const parsedAmount = amount ? parseMoneyInput(amount) : 0;
+  const isIncome = kind === 'INCOME';
+  const isForeign = currency !== 'BRL';
+  const noun = isIncome ? 'Receita' : 'Gasto';
+  // Séries parceladas e recorrentes são sempre gastos
+  const canChangeKind = !initialData?.installmentGroup && !initialData?.recurringRuleId;
+
+  // Arquivadas somem do seletor, exceto a já usada pelo lançamento em edição.
+  // Receitas não entram em cartão de crédito.
+  const selectableAccounts = accounts.filter(a =>
+    (!a.archived || a.id === initialData?.accountId) && !(isIncome && a.type === 'CREDIT_CARD')
+  );
+  const selectedAccount = accounts.find(a => a.id === accountId);
+  const isCreditAccount = selectedAccount?.type === 'CREDIT_CARD';
+
+  // IOF só nas compras internacionais no crédito
+  const canApplyIof = isForeign && isCreditAccount && !isIncome;
+  const rate = parseDecimalInput(exchangeRate);
+  const iofRate = canApplyIof && applyIof ? parseDecimalInput(iofPercent) / 100 : undefined;
+  // Valor em reais: é ele que conta no orçamento e nas parcelas
+  const convertedAmount = !isForeign ? parsedAmount
+    : rate > 0 && isValidIofRate(iofRate ?? 0) ? convertToBRL(parsedAmount, rate, iofRate) : 0;
+
+  const handleKindChange = (k: TransactionKind) => {
+    setKind(k);
+    if (k === 'INCOME' && isCreditAccount) setAccountId(DEFAULT_DEBIT_ACCOUNT_ID);
   };
 
   return (
     <div className={`p-6 rounded-2xl shadow-sm border mb-6 transition-colors ${initialData ? 'bg-amber-50 border-amber-200' : 'bg-white border-gray-100'}`}>
       <h3 className={`text-lg font-semibold mb-4 flex items-center gap-2 ${initialData ? 'text-amber-800' : 'text-gray-800'}`}>
         {initialData ? <Save className="w-5 h-5" /> : <PlusCircle className="w-5 h-5 text-primary" />}
-        {initialData ? 'Editar Gasto' : 'Novo Gasto'}
+        {initialData ? `Editar ${noun}` : `${isIncome ? 'Nova' : 'Novo'} ${noun}`}
       </h3>
       <form onSubmit={handleSubmit} className="space-y-4">
+        {canChangeKind && (
+          <div className="grid grid-cols-2 gap-1 bg-gray-100 rounded-lg p-1">
+            {(['EXPENSE', 'INCOME'] as const).map((k) => (
+              <button
+                key={k}
+                type="button"
+                onClick={() => handleKindChange(k)}
+                className={`flex items-center justify-center gap-2 py-1.5 rounded-md text-sm font-medium transition-all ${
+                  kind === k
+                    ? `bg-white shadow-sm ${k === 'INCOME' ? 'text-emerald-700' : 'text-gray-900'}`
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {k === 'INCOME' ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+                {k === 'INCOME' ? 'Receita' : 'Gasto'}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">Descrição</label>
           <input
@@ -109,14 +252,29 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
             required
             value={description}
             onChange={(e) => setDescription(e.target.value)}
-            placeholder="Ex: Supermercado"
+            placeholder={isIncome ? 'Ex: Salário, Freela, PIX recebido' : 'Ex: Supermercado'}
             className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all"
           />
         </div>
 
         <div className="grid grid-cols-2 gap-4">
           <div className="col-span-2 sm:col-span-1">
-            <label className="block text-sm font-medium text-gray-700 mb-1">Valor (R$)</label>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">Valor ({isForeign ? currency : 'R$'})</label>
+              {!initialData?.recurringRuleId && (
+                <select
+                  value={currency}
+                  onChange={(e) => handleCurrencyChange(e.target.value as ForeignCurrency | 'BRL')}
+                  className="text-xs text-gray-600 bg-transparent outline-none"
+                  title="Moeda"
+                >
+                  <option value="BRL">Real</option>
+                  {(Object.keys(FOREIGN_CURRENCIES) as ForeignCurrency[]).map((c) => (
+                    <option key={c} value={c}>{FOREIGN_CURRENCIES[c]} ({c})</option>
+                  ))}
+                </select>
+              )}
+            </div>
             <input
               type="tel"
               inputMode="numeric"
@@ -152,35 +310,198 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
         </div>
 
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">Método</label>
-          <div className="grid grid-cols-2 gap-3">
-            <button
-              type="button"
-              onClick={() => setMethod('DEBIT')}
-              className={`flex items-center justify-center gap-2 px-4 py-2 rounded-lg border transition-all ${
-                method === 'DEBIT'
-                  ? 'bg-emerald-50 border-emerald-500 text-emerald-700 font-medium'
-                  : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
-              }`}
-            >
-              <Banknote className="w-4 h-4" />
-              Débito
-            </button>
-            <button
-              type="button"
-              onClick={() => setMethod('CREDIT')}
-              className={`flex items-center justify-center gap-2 px-4 py-2 rounded-lg border transition-all ${
-                method === 'CREDIT'
-                  ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
-                  : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
-              }`}
-            >
-              <CreditCard className="w-4 h-4" />
-              Crédito
-            </button>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{isIncome ? 'Conta de entrada' : 'Pago com'}</label>
+          <div className="flex flex-wrap gap-2">
+            {selectableAccounts.map((a) => (
+              <button
+                key={a.id}
+                type="button"
+                onClick={() => setAccountId(a.id)}
+                style={accountId === a.id ? { backgroundColor: `${a.color}1a`, borderColor: a.color, color: a.color } : undefined}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg border text-sm transition-all ${
+                  accountId === a.id
+                    ? 'font-medium'
+                    : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                <AccountIcon type={a.type} className="w-4 h-4" />
+                {a.name}
+              </button>
+            ))}
           </div>
         </div>
 
+        {isForeign && (
+          <div className="p-3 rounded-lg border border-gray-200 bg-gray-50 space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Cotação (R$ por 1 {currency})</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  required
+                  value={exchangeRate}
+                  onChange={(e) => setExchangeRate(e.target.value)}
+                  placeholder="0,0000"
+                  className="w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all text-sm"
+                />
+              </div>
+              {canApplyIof && (
+                <div>
+                  <label className="flex items-center gap-1.5 text-xs font-medium text-gray-600 mb-1">
+                    <input
+                      type="checkbox"
+                      checked={applyIof}
+                      onChange={(e) => setApplyIof(e.target.checked)}
+                      className="accent-emerald-600"
+                    />
+                    IOF (%)
+                  </label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={iofPercent}
+                    disabled={!applyIof}
+                    onChange={(e) => setIofPercent(e.target.value)}
+                    className="w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all text-sm disabled:bg-gray-100 disabled:text-gray-400"
+                  />
+                </div>
+              )}
+            </div>
+            {iofRate !== undefined && !isValidIofRate(iofRate) && (
+              <p className="text-xs text-red-600">O IOF deve ficar entre 0% e {MAX_IOF_RATE * 100}%.</p>
+            )}
+            <p className="text-xs text-gray-500">
+              Em reais: <span className="font-semibold text-gray-800">{formatCurrency(convertedAmount)}</span>
+              {iofRate !== undefined && convertedAmount > 0 && ' (com IOF)'} — é este valor que entra no orçamento.
+            </p>
+          </div>
+        )}
+
+        {!isIncome && (
+          <>
+            {isCreditAccount && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Parcelamento</label>
+                <select
+                  value={installmentCount}
+                  onChange={(e) => setInstallmentCount(Number(e.target.value))}
+                  className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all bg-white"
+                >
+                  {Array.from({ length: MAX_INSTALLMENTS }, (_, i) => i + 1).map((n) => (
+                    <option key={n} value={n}>
+                      {n === 1 ? 'À vista' : `${n}x`}
+                      {n > 1 && convertedAmount > 0 ? ` de ${formatCurrency(splitAmount(convertedAmount, n)[n - 1])}` : ''}
+                    </option>
+                  ))}
+                </select>
+                {installmentCount > 1 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Valor total da compra. As parcelas serão lançadas mensalmente a partir da data informada.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Categoria</label>
+              <div className="flex flex-wrap gap-2">
+                {categories.map((c) => (
+                  <button
+                    key={c.id}
+                    type="button"
+                    onClick={() => setCategory(c.id)}
+                    style={category === c.id ? { backgroundColor: `${c.color}1a`, borderColor: c.color, color: c.color } : undefined}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-sm transition-all ${
+                      category === c.id
+                        ? 'font-medium'
+                        : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    <CategoryIcon icon={c.icon} className="w-3.5 h-3.5" />
+                    {c.name}
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setIsCreatingCategory(!isCreatingCategory)}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-full border border-dashed border-gray-300 text-sm text-gray-500 hover:bg-gray-50 transition-all"
+                >
+                  {isCreatingCategory ? <X className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+                  Nova
+                </button>
+              </div>
+
+              {isCreatingCategory && (
+                <div className="mt-3 p-3 rounded-lg border border-gray-200 bg-gray-50 space-y-3">
+                  <input
+                    type="text"
+                    value={newCategoryName}
+                    onChange={(e) => setNewCategoryName(e.target.value)}
+                    placeholder="Nome da categoria"
+                    className="w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all text-sm"
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {CATEGORY_COLORS.map((color) => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => setNewCategoryColor(color)}
+                        style={{ backgroundColor: color }}
+                        className={`w-6 h-6 rounded-full transition-all ${newCategoryColor === color ? 'ring-2 ring-offset-2 ring-gray-400' : ''}`}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {Object.keys(CATEGORY_ICONS).map((icon) => (
+                      <button
+                        key={icon}
+                        type="button"
+                        onClick={() => setNewCategoryIcon(icon)}
+                        style={newCategoryIcon === icon ? { color: newCategoryColor } : undefined}
+                        className={`p-1.5 rounded-md transition-all ${newCategoryIcon === icon ? 'bg-white shadow-sm' : 'text-gray-400 hover:text-gray-600'}`}
+                      >
+                        <CategoryIcon icon={icon} className="w-4 h-4" />
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handleCreateCategory}
+                    className="w-full bg-gray-900 hover:bg-black text-white text-sm font-semibold py-2 rounded-lg transition-all"
+                  >
+                    Criar Categoria
+                  </button>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        {initialData?.recurringRuleId && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Lançamento recorrente</label>
+            <div className="grid grid-cols-2 gap-3">
+              {(['THIS', 'FUTURE'] as const).map((scope) => (
+                <button
+                  key={scope}
+                  type="button"
+                  onClick={() => setRecurrenceScope(scope)}
+                  className={`px-3 py-2 rounded-lg border text-sm transition-all ${
+                    recurrenceScope === scope
+                      ? 'bg-amber-100 border-amber-500 text-amber-800 font-medium'
+                      : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {scope === 'THIS' ? 'Somente esta' : 'Esta e as próximas'}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
         <div className="flex gap-3">
           {initialData && (
             <button
@@ -193,12 +514,22 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
           )}
           <button
             type="submit"
-            className={`flex-1 font-semibold py-3 rounded-lg shadow-md hover:shadow-lg transition-all active:scale-[0.98] text-white ${initialData ? 'bg-amber-600 hover:bg-amber-700' : 'bg-gray-900 hover:bg-black'}`}
+            disabled={isSaving}
+            className={`flex-1 font-semibold py-3 rounded-lg shadow-md hover:shadow-lg transition-all active:scale-[0.98] text-white disabled:opacity-50 ${initialData ? 'bg-amber-600 hover:bg-amber-700' : 'bg-gray-900 hover:bg-black'}`}
           >
-            {initialData ? 'Salvar Alterações' : 'Adicionar Gasto'}
+            {isSaving ? 'Salvando...' : initialData ? 'Salvar Alterações' : `Adicionar ${noun}`}
           </button>
         </div>
       </form>
+
+      {initialData && (
+        <ChangeHistory
+          transactionId={initialData.id}
+          categories={categories}
+          accounts={accounts}
+          onRevert={onRevert}
+        />
+      )}
     </div>
   );
 };
@@ -1,73 +1,373 @@
-import React from 'react';
-import { Transaction } from '../types';
-import { Trash2, CreditCard, Banknote, Pencil } from 'lucide-react';
+import React, { useState } from 'react';
+import { Transaction, Category, Account } from '../types';
+import { TransactionFilter, TransactionSort, EMPTY_FILTER, applyFilter, sortTransactions, countActiveFilters } from '../services/filters';
+import { formatCurrency, centsToInput, formatDecimal } from '../services/money';
+import AccountIcon from './AccountIcon';
+import CategoryIcon from './CategoryIcon';
+import { Trash2, Pencil, TrendingUp, Undo2, SlidersHorizontal } from 'lucide-react';
 
 interface TransactionListProps {
   transactions: Transaction[];
+  categories: Category[];
+  accounts: Account[];
+  filter: TransactionFilter;
+  filterSummary: boolean; // Resumo calculado só com os lançamentos filtrados
+  onFilterChange: (filter: TransactionFilter) => void;
+  onToggleFilterSummary: () => void;
   onDelete: (id: string) => void;
   onEdit: (t: Transaction) => void;
+  onRefund: (t: Transaction) => void;
 }
 
-const formatCurrency = (val: number) => 
-  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
-
 const formatDate = (dateStr: string) => {
   const [year, month, day] = dateStr.split('-');
   return `${day}/${month}`;
 };
 
-const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelete, onEdit }) => {
+const formatDayHeader = (dateStr: string) => {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const label = new Date(year, month - 1, day).toLocaleDateString('pt-BR', { weekday: 'long', day: '2-digit', month: '2-digit' });
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+// Campo vazio remove o filtro de valor; os dígitos digitados são os centavos
+const parseAmountFilter = (input: string) => {
+  const value = input.replace(/\D/g, '');
+  return value === '' ? undefined : parseInt(value, 10);
+};
+
+const toggleId = (ids: string[], id: string) =>
+  ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id];
+
+const DAYS = Array.from({ length: 31 }, (_, i) => i + 1);
+
+const SORT_OPTIONS: { value: TransactionSort; label: string }[] = [
+  { value: 'DATE', label: 'Data' },
+  { value: 'AMOUNT_DESC', label: 'Maior valor' },
+  { value: 'AMOUNT_ASC', label: 'Menor valor' },
+  { value: 'DESCRIPTION', label: 'Descrição (A-Z)' },
+];
+
+const chipClass = (active: boolean) =>
+  `flex items-center gap-1 px-2.5 py-1 rounded-full border text-xs transition-all ${
+    active ? 'font-medium' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+  }`;
+
+const selectClass = 'px-2 py-1 rounded border border-gray-200 bg-white text-gray-800 text-xs';
+
+interface DayGroup {
+  date: string;
+  transactions: Transaction[];
+  spent: number;
+  income: number;
+}
+
+const TransactionList: React.FC<TransactionListProps> = ({
+  transactions,
+  categories,
+  accounts,
+  filter,
+  filterSummary,
+  onFilterChange,
+  onToggleFilterSummary,
+  onDelete,
+  onEdit,
+  onRefund
+}) => {
+  const [sort, setSort] = useState<TransactionSort>('DATE');
+  const [groupByDay, setGroupByDay] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+
   if (transactions.length === 0) {
     return (
       <div className="text-center py-12 bg-white rounded-2xl border border-dashed border-gray-300">
-        <p className="text-gray-400">Nenhum gasto registrado este mês.</p>
+        <p className="text-gray-400">Nenhum lançamento registrado este mês.</p>
       </div>
     );
   }
 
+  const filtered = sortTransactions(applyFilter(transactions, filter), sort);
+  const activeFilters = countActiveFilters(filter);
+
+  // Estornos aparecem logo abaixo da compra que revertem (quando ela está na lista)
+  const visibleIds = new Set(filtered.map(t => t.id));
+  const orderedTransactions = filtered.flatMap(t => {
+    if (t.refundOf && visibleIds.has(t.refundOf)) return [];
+    return [t, ...filtered.filter(r => r.refundOf === t.id)];
+  });
+
+  // Selos de estorno consideram o mês inteiro, mesmo com filtro ativo
+  const refundsByOriginal: Record<string, number> = {};
+  transactions.forEach(t => {
+    if (t.refundOf) refundsByOriginal[t.refundOf] = (refundsByOriginal[t.refundOf] || 0) - t.amount;
+  });
+
+  // Agrupado por dia: o estorno aninhado acompanha o dia da compra original
+  const dayGroups: DayGroup[] = [];
+  if (groupByDay) {
+    const byDate: Record<string, DayGroup> = {};
+    let anchorDate = '';
+    orderedTransactions.forEach(t => {
+      if (!(t.refundOf && visibleIds.has(t.refundOf))) anchorDate = t.date;
+      if (!byDate[anchorDate]) {
+        byDate[anchorDate] = { date: anchorDate, transactions: [], spent: 0, income: 0 };
+        dayGroups.push(byDate[anchorDate]);
+      }
+      const group = byDate[anchorDate];
+      group.transactions.push(t);
+      if (t.kind === 'INCOME') group.income += t.amount;
+      else group.spent += t.amount;
+    });
+    dayGroups.sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  const renderRow = (t: Transaction) => {
+    const isIncome = t.kind === 'INCOME';
+    const isRefund = !!t.refundOf;
+    const isNested = isRefund && visibleIds.has(t.refundOf!);
+    const refundedAmount = refundsByOriginal[t.id] || 0;
+    const category = isIncome ? undefined : categories.find(c => c.id === t.category);
+    const account = accounts.find(a => a.id === t.accountId);
+    return (
+      <div key={t.id} className={`p-4 flex items-center justify-between hover:bg-gray-50 transition-colors group ${isIncome ? 'bg-emerald-50/40' : ''} ${isNested ? 'pl-10 bg-gray-50/60' : ''}`}>
+        <div className="flex items-center gap-3 sm:gap-4 overflow-hidden">
+          {isRefund ? (
+            <div className="p-2 rounded-full shrink-0 bg-gray-100 text-gray-500">
+              <Undo2 className="w-5 h-5" />
+            </div>
+          ) : isIncome ? (
+            <div className="p-2 rounded-full shrink-0 bg-emerald-500 text-white">
+              <TrendingUp className="w-5 h-5" />
+            </div>
+          ) : (
+            <div
+              className="p-2 rounded-full shrink-0 bg-gray-100 text-gray-500"
+              style={account ? { backgroundColor: `${account.color}1a`, color: account.color } : undefined}
+            >
+              <AccountIcon type={account ? account.type : 'CHECKING'} className="w-5 h-5" />
+            </div>
+          )}
+          <div className="min-w-0">
+            <p className="font-medium text-gray-900 truncate">
+              {t.description}
+              {t.installmentCount && t.installmentCount > 1 && (
+                <span className="ml-2 text-[10px] font-semibold uppercase bg-blue-50 text-blue-600 px-1.5 py-0.5 rounded">
+                  Parcela {t.installmentNumber}/{t.installmentCount}
+                </span>
+              )}
+              {refundedAmount > 0 && (
+                <span className="ml-2 text-[10px] font-semibold uppercase bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded">
+                  {refundedAmount >= t.amount ? 'Estornado' : 'Estorno parcial'}
+                </span>
+              )}
+            </p>
+            <p className="text-xs text-gray-500">
+              {formatDate(t.date)} às {t.time || '00:00'} • {isRefund ? 'Estorno' : isIncome ? 'Receita' : account?.name || 'Conta removida'}
+              {category && (
+                <> • <span style={{ color: category.color }}>{category.name}</span></>
+              )}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 sm:gap-4 shrink-0 pl-2">
+          <div className="text-right">
+            <span className={`font-semibold whitespace-nowrap text-sm sm:text-base ${isIncome || isRefund ? 'text-emerald-600' : 'text-gray-900'}`}>
+              {isIncome || isRefund ? '+' : '-'} {formatCurrency(Math.abs(t.amount))}
+            </span>
+            {t.originalCurrency && t.originalAmount !== undefined && (
+              <p className="text-[11px] text-gray-400 whitespace-nowrap" title={`Cotação: R$ ${formatDecimal(t.exchangeRate ?? 0)}`}>
+                {formatCurrency(Math.abs(t.originalAmount), t.originalCurrency)}
+                {t.iofRate !== undefined && ` + IOF ${formatDecimal(t.iofRate * 100, 2)}%`}
+              </p>
+            )}
+          </div>
+          <div className="flex gap-1">
+            {!isIncome && !isRefund && (
+              <button 
+                onClick={() => onRefund(t)}
+                className="text-gray-300 hover:text-emerald-600 transition-colors p-1.5"
+                title="Registrar estorno"
+              >
+                <Undo2 className="w-4 h-4" />
+              </button>
+            )}
+            {!isRefund && (
+              <button 
+                onClick={() => onEdit(t)}
+                className="text-gray-300 hover:text-blue-500 transition-colors p-1.5"
+                title="Editar"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+            )}
+            <button 
+              onClick={() => onDelete(t.id)}
+              className="text-gray-300 hover:text-red-500 transition-colors p-1.5"
+              title="Excluir"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
-      <div className="px-6 py-4 border-b border-gray-100 bg-gray-50/50">
+      <div className="px-6 py-4 border-b border-gray-100 bg-gray-50/50 flex items-center justify-between">
         <h3 className="font-semibold text-gray-700">Histórico</h3>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-md transition-all ${
+            showFilters || activeFilters > 0 ? 'bg-gray-900 text-white' : 'text-gray-500 hover:text-gray-800'
+          }`}
+        >
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+          Filtros{activeFilters > 0 ? ` (${activeFilters})` : ''}
+        </button>
       </div>
-      <div className="divide-y divide-gray-100">
-        {transactions.map((t) => (
-          <div key={t.id} className="p-4 flex items-center justify-between hover:bg-gray-50 transition-colors group">
-            <div className="flex items-center gap-3 sm:gap-4 overflow-hidden">
-              <div className={`p-2 rounded-full shrink-0 ${t.method === 'CREDIT' ? 'bg-blue-100 text-blue-600' : 'bg-emerald-100 text-emerald-600'}`}>
-                {t.method === 'CREDIT' ? <CreditCard className="w-5 h-5" /> : <Banknote className="w-5 h-5" />}
-              </div>
-              <div className="min-w-0">
-                <p className="font-medium text-gray-900 truncate">{t.description}</p>
-                <p className="text-xs text-gray-500">
-                  {formatDate(t.date)} às {t.time || '00:00'} • {t.method === 'CREDIT' ? 'Crédito' : 'Débito'}
-                </p>
-              </div>
+
+      {showFilters && (
+        <div className="px-4 py-3 border-b border-gray-100 space-y-3 text-xs text-gray-500">
+          <div>
+            <div className="mb-1">Conta</div>
+            <div className="flex flex-wrap gap-1.5">
+              {accounts.map(a => {
+                const active = filter.accountIds.includes(a.id);
+                return (
+                  <button
+                    key={a.id}
+                    onClick={() => onFilterChange({ ...filter, accountIds: toggleId(filter.accountIds, a.id) })}
+                    style={active ? { backgroundColor: `${a.color}1a`, borderColor: a.color, color: a.color } : undefined}
+                    className={chipClass(active)}
+                  >
+                    <AccountIcon type={a.type} className="w-3 h-3" />
+                    {a.name}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-1">Categoria</div>
+            <div className="flex flex-wrap gap-1.5">
+              {categories.map(c => {
+                const active = filter.categoryIds.includes(c.id);
+                return (
+                  <button
+                    key={c.id}
+                    onClick={() => onFilterChange({ ...filter, categoryIds: toggleId(filter.categoryIds, c.id) })}
+                    style={active ? { backgroundColor: `${c.color}1a`, borderColor: c.color, color: c.color } : undefined}
+                    className={chipClass(active)}
+                  >
+                    <CategoryIcon icon={c.icon} className="w-3 h-3" />
+                    {c.name}
+                  </button>
+                );
+              })}
             </div>
-            <div className="flex items-center gap-2 sm:gap-4 shrink-0 pl-2">
-              <span className="font-semibold text-gray-900 whitespace-nowrap text-sm sm:text-base">
-                - {formatCurrency(t.amount)}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex items-center justify-between gap-2">
+              Valor de
+              <input
+                type="tel"
+                inputMode="numeric"
+                value={filter.minAmount !== undefined ? centsToInput(filter.minAmount) : ''}
+                onChange={(e) => onFilterChange({ ...filter, minAmount: parseAmountFilter(e.target.value) })}
+                placeholder="0,00"
+                className={`${selectClass} w-20 text-right`}
+              />
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              até
+              <input
+                type="tel"
+                inputMode="numeric"
+                value={filter.maxAmount !== undefined ? centsToInput(filter.maxAmount) : ''}
+                onChange={(e) => onFilterChange({ ...filter, maxAmount: parseAmountFilter(e.target.value) })}
+                placeholder="0,00"
+                className={`${selectClass} w-20 text-right`}
+              />
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              Do dia
+              <select
+                value={filter.fromDay ?? ''}
+                onChange={(e) => onFilterChange({ ...filter, fromDay: e.target.value ? Number(e.target.value) : undefined })}
+                className={selectClass}
+              >
+                <option value="">—</option>
+                {DAYS.map(d => <option key={d} value={d}>{d}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              até o dia
+              <select
+                value={filter.toDay ?? ''}
+                onChange={(e) => onFilterChange({ ...filter, toDay: e.target.value ? Number(e.target.value) : undefined })}
+                className={selectClass}
+              >
+                <option value="">—</option>
+                {DAYS.map(d => <option key={d} value={d}>{d}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2">
+              Ordenar por
+              <select value={sort} onChange={(e) => setSort(e.target.value as TransactionSort)} className={selectClass}>
+                {SORT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1.5 text-gray-700">
+              <input type="checkbox" checked={groupByDay} onChange={(e) => setGroupByDay(e.target.checked)} />
+              Agrupar por dia
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-1.5 text-gray-700">
+              <input type="checkbox" checked={filterSummary} onChange={onToggleFilterSummary} />
+              Aplicar filtros ao resumo
+            </label>
+            {activeFilters > 0 && (
+              <button onClick={() => onFilterChange(EMPTY_FILTER)} className="text-red-500 font-medium hover:text-red-600">
+                Limpar filtros
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {orderedTransactions.length === 0 ? (
+        <p className="text-center text-sm text-gray-400 py-8">Nenhum lançamento corresponde aos filtros.</p>
+      ) : groupByDay ? (
+        dayGroups.map(group => (
+          <div key={group.date}>
+            <div className="px-4 py-2 bg-gray-50 border-y border-gray-100 flex items-center justify-between text-xs font-medium text-gray-500">
+              <span>{formatDayHeader(group.date)}</span>
+              <span>
+                {group.spent > 0 && `- ${formatCurrency(group.spent)}`}
+                {/* Dia só com estornos: o saldo volta para a conta, como nas linhas de estorno */}
+                {group.spent < 0 && <span className="text-emerald-600">+ {formatCurrency(-group.spent)}</span>}
+                {group.income > 0 && <span className="text-emerald-600 ml-2">+ {formatCurrency(group.income)}</span>}
               </span>
-              <div className="flex gap-1">
-                <button 
-                  onClick={() => onEdit(t)}
-                  className="text-gray-300 hover:text-blue-500 transition-colors p-1.5"
-                  title="Editar"
-                >
-                  <Pencil className="w-4 h-4" />
-                </button>
-                <button 
-                  onClick={() => onDelete(t.id)}
-                  className="text-gray-300 hover:text-red-500 transition-colors p-1.5"
-                  title="Excluir"
-                >
-                  <Trash2 className="w-4 h-4" />
-                </button>
-              </div>
+            </div>
+            <div className="divide-y divide-gray-100">
+              {group.transactions.map(renderRow)}
             </div>
           </div>
-        ))}
-      </div>
+        ))
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {orderedTransactions.map(renderRow)}
+        </div>
+      )}
     </div>
   );
 };
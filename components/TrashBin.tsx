@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { Transaction, Account } from '../types';
+import { getTrash, restoreFromTrash, deleteTransactions, liveQuery, TRASH_RETENTION_DAYS } from '../services/db';
+import { formatCurrency } from '../services/money';
+import { Trash2, X, RotateCcw } from 'lucide-react';
+
+interface TrashBinProps {
+  accounts: Account[];
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (dateStr: string) => {
+  const [year, month, day] = dateStr.split('-');
+  return `${day}/${month}/${year.slice(2)}`;
+};
+
+const TrashBin: React.FC<TrashBinProps> = ({ accounts, onClose }) => {
+  const [items, setItems] = useState<Transaction[] | null>(null);
+
+  // A lista acompanha qualquer exclusão ou restauração, feita aqui ou na tela principal
+  useEffect(() => liveQuery(
+    getTrash,
+    change => change.type === 'transactions' || change.type === 'reset',
+    setItems
+  ), []);
+
+  const handleRestore = (t: Transaction) => restoreFromTrash([t.id]);
+
+  const handlePurge = async (t: Transaction) => {
+    if (!window.confirm(`Excluir "${t.description}" definitivamente? Não será possível recuperar.`)) return;
+    await deleteTransactions([t.id]);
+  };
+
+  const handleEmpty = async () => {
+    if (!items || items.length === 0) return;
+    if (!window.confirm(`Excluir definitivamente os ${items.length} lançamento(s) da lixeira?`)) return;
+    await deleteTransactions(items.map(t => t.id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-50 overflow-y-auto">
+      <div className="w-full max-w-md mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <Trash2 className="w-5 h-5 text-gray-500" /> Lixeira
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600" title="Fechar">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-gray-500">
+            Lançamentos apagados ficam aqui por {TRASH_RETENTION_DAYS} dias e depois são excluídos de vez.
+          </p>
+          {items && items.length > 0 && (
+            <button onClick={handleEmpty} className="text-xs font-medium text-red-600 hover:text-red-700 whitespace-nowrap">
+              Esvaziar
+            </button>
+          )}
+        </div>
+
+        {!items ? (
+          <p className="text-sm text-gray-400 text-center py-6">Carregando...</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-6">A lixeira está vazia.</p>
+        ) : (
+          <div className="bg-white rounded-2xl border border-gray-100 shadow-sm divide-y divide-gray-100 overflow-hidden">
+            {items.map(t => {
+              const daysLeft = Math.max(0, Math.ceil((t.deletedAt! + TRASH_RETENTION_DAYS * DAY_MS - Date.now()) / DAY_MS));
+              const isIncome = t.kind === 'INCOME';
+              const isRefund = !!t.refundOf;
+              return (
+                <div key={t.id} className="px-4 py-3 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-900 truncate">{t.description}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(t.date)} • {accounts.find(a => a.id === t.accountId)?.name || 'Conta removida'}
+                      {' • '}some em {daysLeft} dia(s)
+                    </p>
+                  </div>
+                  <span className={`text-sm font-semibold whitespace-nowrap ${isIncome || isRefund ? 'text-emerald-600' : 'text-gray-900'}`}>
+                    {isIncome || isRefund ? '+' : '-'} {formatCurrency(Math.abs(t.amount))}
+                  </span>
+                  <button onClick={() => handleRestore(t)} className="p-1.5 text-gray-400 hover:text-blue-600" title="Restaurar">
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handlePurge(t)} className="p-1.5 text-gray-400 hover:text-red-600" title="Excluir definitivamente">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashBin;
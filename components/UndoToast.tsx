@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => Promise<void>;
+  onDismiss: () => void;
+  duration?: number; // ms até sumir sozinho
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, duration = 6000 }) => {
+  const [isUndoing, setIsUndoing] = useState(false);
+
+  // Cada nova mensagem reinicia o tempo
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss, duration]);
+
+  const handleUndo = async () => {
+    setIsUndoing(true);
+    try {
+      await onUndo();
+    } finally {
+      onDismiss();
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 inset-x-0 z-40 flex justify-center px-4 pointer-events-none">
+      <div className="pointer-events-auto w-full max-w-md bg-gray-900 text-white rounded-xl shadow-lg px-4 py-3 flex items-center gap-3">
+        <span className="flex-1 text-sm truncate">{message}</span>
+        <button
+          onClick={handleUndo}
+          disabled={isUndoing}
+          className="flex items-center gap-1 text-sm font-semibold text-emerald-400 hover:text-emerald-300 disabled:opacity-50"
+        >
+          <Undo2 className="w-4 h-4" /> Desfazer
+        </button>
+        <button onClick={onDismiss} className="text-gray-400 hover:text-gray-200" title="Fechar">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UndoToast;
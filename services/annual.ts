@@ -0,0 +1,68 @@
+import * as db from './db';
+
+export interface MonthOverview {
+  month: string; // YYYY-MM
+  spent: number; // Gastos menos estornos (receitas ficam de fora)
+  debit: number;
+  credit: number;
+  income: number;
+  limit: number; // 0 = sem limite definido
+}
+
+export interface AnnualOverview {
+  year: number;
+  months: MonthOverview[]; // Sempre 12, de janeiro a dezembro
+  elapsedMonths: number; // Meses já iniciados no ano (12 para anos passados)
+  totalSpent: number; // Acumulado até o mês corrente
+  totalIncome: number;
+  averageSpent: number;
+  monthsWithinLimit: number; // Entre os meses decorridos que têm limite definido
+  monthsWithLimit: number;
+}
+
+export const getAnnualOverview = async (year: number, currentMonth: string): Promise<AnnualOverview> => {
+  const [transactions, budgets] = await Promise.all([
+    db.getTransactionsByDateRange(`${year}-01-01`, `${year}-12-31`),
+    db.getMonthlyBudgets(`${year}-01`, `${year}-12`),
+  ]);
+
+  const months: MonthOverview[] = Array.from({ length: 12 }, (_, i) => {
+    const month = `${year}-${String(i + 1).padStart(2, '0')}`;
+    return {
+      month,
+      spent: 0,
+      debit: 0,
+      credit: 0,
+      income: 0,
+      limit: budgets.find(b => b.month === month)?.limit || 0,
+    };
+  });
+
+  transactions.forEach(t => {
+    const overview = months[Number(t.date.slice(5, 7)) - 1];
+    if (t.kind === 'INCOME') {
+      overview.income += t.amount;
+      return;
+    }
+    overview.spent += t.amount;
+    if (t.method === 'CREDIT') overview.credit += t.amount;
+    else overview.debit += t.amount;
+  });
+
+  const currentYear = Number(currentMonth.slice(0, 4));
+  const elapsedMonths = year < currentYear ? 12 : year > currentYear ? 0 : Number(currentMonth.slice(5, 7));
+  const elapsed = months.slice(0, elapsedMonths);
+  const withLimit = elapsed.filter(m => m.limit > 0);
+  const totalSpent = elapsed.reduce((acc, m) => acc + m.spent, 0);
+
+  return {
+    year,
+    months,
+    elapsedMonths,
+    totalSpent,
+    totalIncome: elapsed.reduce((acc, m) => acc + m.income, 0),
+    averageSpent: elapsedMonths > 0 ? totalSpent / elapsedMonths : 0,
+    monthsWithinLimit: withLimit.filter(m => m.spent <= m.limit).length,
+    monthsWithLimit: withLimit.length,
+  };
+};
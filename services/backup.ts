@@ -0,0 +1,318 @@
+import { BackupData, AccountType, Transaction, MonthlyBudget, Account, RecurringRule } from '../types';
+import {
+  BACKUP_VERSION, UNCATEGORIZED_ID, DEFAULT_CATEGORIES, DEFAULT_ACCOUNTS,
+  migrateTransaction, migrateRecurringRule, legacyCardToAccount,
+  transactionToCents, recurringRuleToCents, budgetToCents, accountToCents
+} from './db';
+import { FOREIGN_CURRENCIES, isValidIofRate } from './money';
+
+const ACCOUNT_TYPES: AccountType[] = ['CHECKING', 'PIX', 'CASH', 'BOLETO', 'VOUCHER', 'CREDIT_CARD'];
+
+// Quantos problemas o alerta mostra antes de resumir o restante
+const MAX_REPORTED_ERRORS = 8;
+
+export interface ParsedBackup {
+  data: BackupData | null; // Null quando há erros: nada deve ser importado
+  errors: string[];
+}
+
+type RawBackup = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawBackup =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Listas do backup; checkStructure já garantiu que são listas de objetos
+const records = (value: unknown): RawBackup[] => Array.isArray(value) ? value.filter(isObject) : [];
+
+// Entrada das migrações do db.ts: os campos só são validados depois de migrar (validateBackup)
+const asRecord = <T>(record: RawBackup) => record as unknown as T;
+
+/**
+ * Cada entrada converte um backup da versão N para N + 1.
+ * A versão do arquivo é a do formato JSON (BackupData.version), não a do IndexedDB.
+ */
+const MIGRATIONS: Record<number, (data: RawBackup) => RawBackup> = {
+  // v2: categorias e limites por categoria nos orçamentos
+  1: data => ({
+    ...data,
+    categories: [],
+    transactions: records(data.transactions).map(t => ({ ...t, category: t.category || UNCATEGORIZED_ID })),
+    budgets: records(data.budgets).map(b => ({ ...b, categoryLimits: b.categoryLimits || {} })),
+  }),
+  // v3: cartões de crédito
+  2: data => ({ ...data, cards: data.cards || [] }),
+  // v4: regras recorrentes
+  3: data => ({ ...data, recurringRules: data.recurringRules || [] }),
+  // v5: preferências
+  4: data => ({ ...data, settings: data.settings || {} }),
+  // v6: cartões viram contas; lançamentos e regras passam a apontar para uma conta
+  5: ({ cards, ...data }) => ({
+    ...data,
+    accounts: [...DEFAULT_ACCOUNTS, ...records(cards).map(c => legacyCardToAccount(asRecord(c)))],
+    transactions: records(data.transactions).map(t => migrateTransaction(asRecord(t))),
+    recurringRules: data.recurringRules === undefined
+      ? undefined
+      : records(data.recurringRules).map(r => migrateRecurringRule(asRecord(r))),
+  }),
+  // v7: valores em centavos inteiros em vez de reais
+  6: data => ({
+    ...data,
+    transactions: records(data.transactions).map(t => transactionToCents(asRecord<Transaction>(t))),
+    budgets: records(data.budgets).map(b => budgetToCents(asRecord<MonthlyBudget>(b))),
+    accounts: data.accounts === undefined ? undefined : records(data.accounts).map(a => accountToCents(asRecord<Account>(a))),
+    recurringRules: data.recurringRules === undefined
+      ? undefined
+      : records(data.recurringRules).map(r => recurringRuleToCents(asRecord<RecurringRule>(r))),
+  }),
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isCents = (value: unknown): value is number => Number.isSafeInteger(value);
+
+const isForeignCurrency = (value: unknown) => typeof value === 'string' && Object.hasOwn(FOREIGN_CURRENCIES, value);
+
+const isRate = (value: unknown): value is number => isFiniteNumber(value) && value > 0;
+
+const isIofRate = (value: unknown): value is number => isFiniteNumber(value) && isValidIofRate(value);
+
+const isInteger = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const isValidDate = (value: unknown) => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+};
+
+const isValidMonth = (value: unknown) => typeof value === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+
+const isValidTime = (value: unknown) => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+const show = (value: unknown) => value === undefined ? 'ausente' : JSON.stringify(value);
+
+// Coletor de erros com o rótulo do registro ("Lançamento 3 (Mercado)") já aplicado
+const createChecker = (errors: string[]) => (label: string) =>
+  (ok: boolean, field: string, value: unknown) => {
+    if (!ok) errors.push(`${label}: campo "${field}" inválido (${show(value)})`);
+  };
+
+const checkUniqueIds = (errors: string[], label: string, items: RawBackup[], key = 'id') => {
+  const seen = new Set<unknown>();
+  items.forEach(item => {
+    if (seen.has(item[key])) errors.push(`${label}: "${key}" repetido (${show(item[key])})`);
+    seen.add(item[key]);
+  });
+};
+
+/**
+ * Confere todos os campos de um backup já migrado para BACKUP_VERSION,
+ * incluindo as referências de lançamentos e regras para contas e categorias.
+ */
+export const validateBackup = (data: RawBackup): string[] => {
+  const errors: string[] = [];
+  const checker = createChecker(errors);
+
+  const transactions = records(data.transactions);
+  const budgets = records(data.budgets);
+  const categories = records(data.categories);
+  const accounts = records(data.accounts);
+  const recurringRules = records(data.recurringRules);
+
+  const accountIds = new Set(accounts.map(a => a.id));
+  const categoryIds = new Set([...DEFAULT_CATEGORIES.map(c => c.id), ...categories.map(c => c.id)]);
+
+  categories.forEach((c, i) => {
+    const check = checker(`Categoria ${i + 1} (${c.name ?? 'sem nome'})`);
+    check(isNonEmptyString(c.id), 'id', c.id);
+    check(isNonEmptyString(c.name), 'name', c.name);
+    check(isNonEmptyString(c.color), 'color', c.color);
+    check(isNonEmptyString(c.icon), 'icon', c.icon);
+    check(isFiniteNumber(c.createdAt), 'createdAt', c.createdAt);
+  });
+  checkUniqueIds(errors, 'Categorias', categories);
+
+  accounts.forEach((a, i) => {
+    const check = checker(`Conta ${i + 1} (${a.name ?? 'sem nome'})`);
+    check(isNonEmptyString(a.id), 'id', a.id);
+    check(isNonEmptyString(a.name), 'name', a.name);
+    check(ACCOUNT_TYPES.some(type => type === a.type), 'type', a.type);
+    check(isNonEmptyString(a.color), 'color', a.color);
+    check(a.limit === undefined || (isCents(a.limit) && a.limit >= 0), 'limit', a.limit);
+    check(a.closingDay === undefined || isInteger(a.closingDay, 1, 31), 'closingDay', a.closingDay);
+    check(a.dueDay === undefined || isInteger(a.dueDay, 1, 31), 'dueDay', a.dueDay);
+    check(a.archived === undefined || typeof a.archived === 'boolean', 'archived', a.archived);
+    check(isFiniteNumber(a.createdAt), 'createdAt', a.createdAt);
+    check(a.updatedAt === undefined || isFiniteNumber(a.updatedAt), 'updatedAt', a.updatedAt);
+  });
+  checkUniqueIds(errors, 'Contas', accounts);
+
+  transactions.forEach((t, i) => {
+    const check = checker(`Lançamento ${i + 1} (${t.description ?? 'sem descrição'})`);
+    check(isNonEmptyString(t.id), 'id', t.id);
+    check(typeof t.description === 'string', 'description', t.description);
+    // Só estornos (refundOf) têm valor negativo
+    check(isCents(t.amount) && t.amount !== 0 && (t.amount > 0 || !!t.refundOf), 'amount', t.amount);
+    check(t.kind === undefined || t.kind === 'EXPENSE' || t.kind === 'INCOME', 'kind', t.kind);
+    check(accountIds.has(t.accountId), 'accountId', t.accountId);
+    check(t.method === 'DEBIT' || t.method === 'CREDIT', 'method', t.method);
+    check(categoryIds.has(t.category), 'category', t.category);
+    check(isValidDate(t.date), 'date', t.date);
+    check(isValidTime(t.time), 'time', t.time);
+    check(isFiniteNumber(t.createdAt), 'createdAt', t.createdAt);
+    check(t.updatedAt === undefined || isFiniteNumber(t.updatedAt), 'updatedAt', t.updatedAt);
+    if (t.installmentGroup !== undefined) {
+      check(isNonEmptyString(t.installmentGroup), 'installmentGroup', t.installmentGroup);
+      check(isInteger(t.installmentCount, 1, Number.MAX_SAFE_INTEGER), 'installmentCount', t.installmentCount);
+      check(isInteger(t.installmentNumber, 1, Number(t.installmentCount)), 'installmentNumber', t.installmentNumber);
+      check(t.purchaseAmount === undefined || isCents(t.purchaseAmount), 'purchaseAmount', t.purchaseAmount);
+    }
+    check(t.recurringRuleId === undefined || isNonEmptyString(t.recurringRuleId), 'recurringRuleId', t.recurringRuleId);
+    check(t.recurringMonth === undefined || isValidMonth(t.recurringMonth), 'recurringMonth', t.recurringMonth);
+    check(t.refundOf === undefined || isNonEmptyString(t.refundOf), 'refundOf', t.refundOf);
+    if (t.originalCurrency !== undefined) {
+      check(isForeignCurrency(t.originalCurrency), 'originalCurrency', t.originalCurrency);
+      check(isCents(t.originalAmount) && t.originalAmount !== 0, 'originalAmount', t.originalAmount);
+      check(isRate(t.exchangeRate), 'exchangeRate', t.exchangeRate);
+      check(t.iofRate === undefined || isIofRate(t.iofRate), 'iofRate', t.iofRate);
+    } else {
+      // Sem moeda, os demais campos da conversão não fazem sentido
+      check(t.originalAmount === undefined, 'originalAmount', t.originalAmount);
+      check(t.exchangeRate === undefined, 'exchangeRate', t.exchangeRate);
+      check(t.iofRate === undefined, 'iofRate', t.iofRate);
+    }
+    check(t.externalId === undefined || isNonEmptyString(t.externalId), 'externalId', t.externalId);
+    check(t.deletedAt === undefined || isFiniteNumber(t.deletedAt), 'deletedAt', t.deletedAt);
+  });
+  checkUniqueIds(errors, 'Lançamentos', transactions);
+
+  budgets.forEach((b, i) => {
+    const check = checker(`Orçamento ${i + 1} (${b.month ?? 'sem mês'})`);
+    check(isValidMonth(b.month), 'month', b.month);
+    check(isCents(b.limit) && b.limit >= 0, 'limit', b.limit);
+    const limits = b.categoryLimits;
+    check(
+      limits === undefined || (isObject(limits) && Object.values(limits).every(v => isCents(v) && v >= 0)),
+      'categoryLimits',
+      limits
+    );
+    check(b.updatedAt === undefined || isFiniteNumber(b.updatedAt), 'updatedAt', b.updatedAt);
+  });
+  checkUniqueIds(errors, 'Orçamentos', budgets, 'month');
+
+  recurringRules.forEach((r, i) => {
+    const check = checker(`Recorrência ${i + 1} (${r.description ?? 'sem descrição'})`);
+    check(isNonEmptyString(r.id), 'id', r.id);
+    check(typeof r.description === 'string', 'description', r.description);
+    check(isCents(r.amount) && r.amount > 0, 'amount', r.amount);
+    check(accountIds.has(r.accountId), 'accountId', r.accountId);
+    check(r.method === 'DEBIT' || r.method === 'CREDIT', 'method', r.method);
+    check(categoryIds.has(r.category), 'category', r.category);
+    check(isInteger(r.dayOfMonth, 1, 31), 'dayOfMonth', r.dayOfMonth);
+    check(isValidMonth(r.startMonth), 'startMonth', r.startMonth);
+    check(r.endMonth === undefined || isValidMonth(r.endMonth), 'endMonth', r.endMonth);
+    check(r.frequency === 'MONTHLY' || r.frequency === 'YEARLY', 'frequency', r.frequency);
+    check(typeof r.autoConfirm === 'boolean', 'autoConfirm', r.autoConfirm);
+    check(Array.isArray(r.skippedMonths) && r.skippedMonths.every(isValidMonth), 'skippedMonths', r.skippedMonths);
+    check(isFiniteNumber(r.createdAt), 'createdAt', r.createdAt);
+    check(r.updatedAt === undefined || isFiniteNumber(r.updatedAt), 'updatedAt', r.updatedAt);
+  });
+  checkUniqueIds(errors, 'Recorrências', recurringRules);
+
+  const settings = data.settings;
+  if (settings !== undefined && !isObject(settings)) {
+    errors.push(`Preferências: formato inválido (${show(settings)})`);
+  } else if (isObject(settings)) {
+    if (settings.balanceMode !== undefined && typeof settings.balanceMode !== 'boolean') {
+      errors.push(`Preferências: campo "balanceMode" inválido (${show(settings.balanceMode)})`);
+    }
+    if (settings.authorName !== undefined && typeof settings.authorName !== 'string') {
+      errors.push(`Preferências: campo "authorName" inválido (${show(settings.authorName)})`);
+    }
+    const rates = settings.exchangeRates;
+    if (rates !== undefined && !(isObject(rates) && Object.entries(rates).every(([c, r]) => isForeignCurrency(c) && isRate(r)))) {
+      errors.push(`Preferências: campo "exchangeRates" inválido (${show(rates)})`);
+    }
+    if (settings.iofRate !== undefined && !isIofRate(settings.iofRate)) {
+      errors.push(`Preferências: campo "iofRate" inválido (${show(settings.iofRate)})`);
+    }
+  }
+
+  return errors;
+};
+
+// Estrutura mínima para as migrações rodarem sem quebrar: listas de objetos
+const checkStructure = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ['O arquivo não contém um objeto de backup.'];
+  const errors: string[] = [];
+
+  if (!isInteger(raw.version, 1, Number.MAX_SAFE_INTEGER)) {
+    errors.push(`Versão do backup ausente ou inválida (${show(raw.version)}).`);
+  } else if (raw.version > BACKUP_VERSION) {
+    errors.push(`Backup na versão ${raw.version}, mais nova que a suportada (${BACKUP_VERSION}). Atualize o app.`);
+  }
+
+  const lists: [string, string, boolean][] = [
+    ['transactions', 'Lançamentos', true],
+    ['budgets', 'Orçamentos', true],
+    ['categories', 'Categorias', false],
+    ['accounts', 'Contas', false],
+    ['cards', 'Cartões', false],
+    ['recurringRules', 'Recorrências', false],
+  ];
+  lists.forEach(([key, label, required]) => {
+    const list = raw[key];
+    if (list === undefined && !required) return;
+    if (!Array.isArray(list)) {
+      errors.push(`${label}: lista ausente ou inválida.`);
+      return;
+    }
+    list.forEach((item, i) => {
+      if (!isObject(item)) errors.push(`${label}: item ${i + 1} não é um objeto (${show(item)}).`);
+    });
+  });
+
+  return errors;
+};
+
+// `raw.version` já foi conferido por checkStructure
+export const migrateBackup = (raw: RawBackup): RawBackup => {
+  let data = raw;
+  for (let version = raw.version as number; version < BACKUP_VERSION; version++) {
+    data = { ...MIGRATIONS[version](data), version: version + 1 };
+  }
+  return data;
+};
+
+/**
+ * Migra versões antigas e valida tudo antes de qualquer gravação.
+ * Com qualquer erro o resultado não traz dados, e o banco atual não deve ser tocado.
+ */
+export const readBackup = (raw: unknown): ParsedBackup => {
+  const structureErrors = checkStructure(raw);
+  if (structureErrors.length > 0) return { data: null, errors: structureErrors };
+
+  const data = migrateBackup(raw as RawBackup);
+  const errors = validateBackup(data);
+  return errors.length > 0 ? { data: null, errors } : { data: asRecord<BackupData>(data), errors };
+};
+
+// Conteúdo de um arquivo de backup (JSON sem criptografia)
+export const parseBackup = (json: string): ParsedBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { data: null, errors: ['O arquivo não é um JSON válido.'] };
+  }
+  return readBackup(raw);
+};
+
+export const formatBackupErrors = (errors: string[]) => {
+  const shown = errors.slice(0, MAX_REPORTED_ERRORS).map(e => `• ${e}`);
+  if (errors.length > MAX_REPORTED_ERRORS) shown.push(`... e mais ${errors.length - MAX_REPORTED_ERRORS} problema(s).`);
+  return shown.join('\n');
+};
@@ -0,0 +1,105 @@
+// Envelope de backup criptografado: JSON com os parâmetros necessários para derivar a chave
+// e o conteúdo cifrado. O "format" permite à restauração reconhecê-lo antes de validar o backup.
+const ENVELOPE_FORMAT = 'GestorGastos/encrypted-backup';
+const ENVELOPE_VERSION = 1;
+
+// Recomendação atual para PBKDF2-HMAC-SHA256; fica gravado no envelope para poder subir depois
+const PBKDF2_ITERATIONS = 600000;
+
+// Faixa aceita ao ler um envelope: abaixo é fraco demais, acima travaria o app derivando a chave
+const MIN_PBKDF2_ITERATIONS = 100000;
+const MAX_PBKDF2_ITERATIONS = 5000000;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+interface EncryptedEnvelope {
+  format: typeof ENVELOPE_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }; // salt em base64
+  cipher: { name: 'AES-GCM'; iv: string }; // iv em base64
+  data: string; // Backup JSON cifrado (base64), com a tag de autenticação do GCM no final
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Em blocos para não estourar o limite de argumentos do fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const parseEnvelope = (text: string): EncryptedEnvelope | null => {
+  try {
+    const value = JSON.parse(text);
+    return value && value.format === ENVELOPE_FORMAT ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isEncryptedBackup = (text: string) => parseEnvelope(text) !== null;
+
+export const encryptBackup = async (json: string, passphrase: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(json));
+
+  const envelope: EncryptedEnvelope = {
+    format: ENVELOPE_FORMAT,
+    version: ENVELOPE_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(encrypted)),
+  };
+  return JSON.stringify(envelope, null, 2);
+};
+
+/**
+ * Devolve o JSON original do backup, ou null quando a senha está errada.
+ * O AES-GCM autentica o conteúdo, então um arquivo alterado também cai no null.
+ * Envelopes malformados ou de versão desconhecida lançam erro.
+ */
+export const decryptBackup = async (text: string, passphrase: string): Promise<string | null> => {
+  const envelope = parseEnvelope(text);
+  if (!envelope) throw new Error('O arquivo não é um backup criptografado.');
+  if (envelope.version > ENVELOPE_VERSION) {
+    throw new Error(`Backup criptografado na versão ${envelope.version}, mais nova que a suportada. Atualize o app.`);
+  }
+
+  let salt: Uint8Array, iv: Uint8Array, data: Uint8Array;
+  try {
+    salt = fromBase64(envelope.kdf.salt);
+    iv = fromBase64(envelope.cipher.iv);
+    data = fromBase64(envelope.data);
+  } catch {
+    throw new Error('Backup criptografado corrompido.');
+  }
+
+  const iterations = envelope.kdf.iterations;
+  if (!Number.isInteger(iterations) || iterations < MIN_PBKDF2_ITERATIONS || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error('Backup criptografado corrompido.');
+  }
+
+  const key = await deriveKey(passphrase, salt, iterations);
+  try {
+    const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data);
+    return new TextDecoder().decode(decrypted);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,102 @@
+import { Account, Transaction } from '../types';
+import { getTransactionsByDateRange } from './db';
+import { addMonthsToDate } from './installments';
+
+// Conta de cartão de crédito, com fechamento e vencimento obrigatórios
+export type CreditCard = Account & { type: 'CREDIT_CARD'; closingDay: number; dueDay: number };
+
+export const isCreditCard = (account: Account): account is CreditCard =>
+  account.type === 'CREDIT_CARD' && !!account.closingDay && !!account.dueDay;
+
+export interface InvoicePeriod {
+  month: string; // YYYY-MM em que a fatura fecha
+  start: string; // Primeiro dia de compras da fatura (YYYY-MM-DD)
+  closingDate: string; // Último dia de compras da fatura
+  dueDate: string;
+}
+
+export interface InvoiceSummary {
+  card: CreditCard;
+  open: InvoicePeriod & { total: number };
+  closed: InvoicePeriod & { total: number };
+}
+
+const lastDayOfMonth = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(year, m, 0).getDate();
+};
+
+// Dia do mês limitado ao tamanho do mês (ex: fechamento 31 em fevereiro -> 28/29)
+const dateInMonth = (month: string, day: number) =>
+  `${month}-${String(Math.min(day, lastDayOfMonth(month))).padStart(2, '0')}`;
+
+const shiftMonth = (month: string, offset: number) => addMonthsToDate(`${month}-01`, offset).slice(0, 7);
+
+// Compras até o dia de fechamento entram na fatura do mês; depois dele, na do mês seguinte
+export const getInvoiceMonth = (date: string, card: CreditCard): string => {
+  const month = date.slice(0, 7);
+  return date <= dateInMonth(month, card.closingDay) ? month : shiftMonth(month, 1);
+};
+
+export const getInvoicePeriod = (month: string, card: CreditCard): InvoicePeriod => {
+  const previousClosing = dateInMonth(shiftMonth(month, -1), card.closingDay);
+  const [year, m, day] = previousClosing.split('-').map(Number);
+  const start = new Date(year, m - 1, day + 1).toLocaleDateString('sv');
+
+  // Vencimento depois do fechamento cai no mesmo mês; senão, no mês seguinte
+  const dueMonth = card.dueDay > card.closingDay ? month : shiftMonth(month, 1);
+
+  return {
+    month,
+    start,
+    closingDate: dateInMonth(month, card.closingDay),
+    dueDate: dateInMonth(dueMonth, card.dueDay),
+  };
+};
+
+/**
+ * Reatribui as compras no crédito ao mês da fatura a que pertencem.
+ * Recebe transações de um intervalo que cubra o mês anterior e o atual
+ * e devolve apenas as que pertencem a `month` (débito pela data, crédito pela fatura).
+ */
+export const filterByInvoiceMonth = (transactions: Transaction[], month: string, cards: CreditCard[]): Transaction[] => {
+  return transactions.filter(t => {
+    if (t.method !== 'CREDIT') return t.date.startsWith(month);
+    const card = cards.find(c => c.id === t.accountId);
+    return card ? getInvoiceMonth(t.date, card) === month : t.date.startsWith(month);
+  });
+};
+
+// Fatura aberta (que contém `today`) e a última fechada, para cada cartão
+export const getInvoiceSummaries = async (cards: CreditCard[], today: string): Promise<InvoiceSummary[]> => {
+  if (cards.length === 0) return [];
+
+  const periods = cards.map(card => {
+    const openMonth = getInvoiceMonth(today, card);
+    return {
+      card,
+      open: getInvoicePeriod(openMonth, card),
+      closed: getInvoicePeriod(shiftMonth(openMonth, -1), card),
+    };
+  });
+
+  const start = periods.map(p => p.closed.start).sort()[0];
+  const end = periods.map(p => p.open.closingDate).sort().reverse()[0];
+  const transactions = (await getTransactionsByDateRange(start, end)).filter(t => t.method === 'CREDIT');
+
+  const sumPeriod = (card: CreditCard, period: InvoicePeriod) => transactions
+    .filter(t => t.accountId === card.id && t.date >= period.start && t.date <= period.closingDate)
+    .reduce((acc, t) => acc + t.amount, 0);
+
+  return periods.map(({ card, open, closed }) => ({
+    card,
+    open: { ...open, total: sumPeriod(card, open) },
+    closed: { ...closed, total: sumPeriod(card, closed) },
+  }));
+};
+
+// Visão por fatura: débitos pela data da compra, créditos pelo mês da fatura
+export const getTransactionsByInvoiceMonth = async (month: string, cards: CreditCard[]): Promise<Transaction[]> => {
+  const transactions = await getTransactionsByDateRange(`${shiftMonth(month, -1)}-01`, `${month}-31`);
+  return filterByInvoiceMonth(transactions, month, cards);
+};
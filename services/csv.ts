@@ -0,0 +1,77 @@
+import { Transaction, Category, Account, Cents } from '../types';
+
+// Padrão de planilhas pt-BR: ";" como separador e vírgula decimal
+const SEPARATOR = ';';
+
+const formatDateBR = (date: string) => {
+  const [year, month, day] = date.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+const formatTimestampBR = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.toLocaleDateString('pt-BR')} ${d.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+// Sem separador de milhar para que a planilha reconheça o número
+const formatDecimalBR = (cents: Cents) => (cents / 100).toFixed(2).replace('.', ',');
+
+// Texto começando com = + - @ vira fórmula na planilha; descrições vêm de extratos importados,
+// então ganham um apóstrofo na frente. Números negativos (estornos) continuam números.
+const neutralizeFormula = (value: string) =>
+  /^[=+\-@]/.test(value) && !/^-\d+(,\d+)?$/.test(value) ? `'${value}` : value;
+
+const escapeCell = (raw: string) => {
+  const value = neutralizeFormula(raw);
+  return /[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+interface CsvColumn {
+  header: string;
+  value: (t: Transaction) => string;
+}
+
+/**
+ * Uma coluna por campo de Transaction (exceto searchTokens, que é só índice de busca),
+ * com nomes de conta e categoria ao lado dos ids para facilitar a leitura.
+ */
+export const buildTransactionsCsv = (transactions: Transaction[], categories: Category[], accounts: Account[]): string => {
+  const categoryName = (id: string) => categories.find(c => c.id === id)?.name || '';
+  const accountName = (id: string) => accounts.find(a => a.id === id)?.name || '';
+
+  const columns: CsvColumn[] = [
+    { header: 'Data', value: t => formatDateBR(t.date) },
+    { header: 'Hora', value: t => t.time || '' },
+    { header: 'Descrição', value: t => t.description },
+    { header: 'Valor', value: t => formatDecimalBR(t.amount) },
+    { header: 'Tipo', value: t => t.refundOf ? 'Estorno' : t.kind === 'INCOME' ? 'Receita' : 'Gasto' },
+    { header: 'Método', value: t => t.method === 'CREDIT' ? 'Crédito' : 'Débito' },
+    { header: 'Conta', value: t => accountName(t.accountId) },
+    { header: 'Categoria', value: t => t.kind === 'INCOME' ? '' : categoryName(t.category) },
+    { header: 'Parcela', value: t => t.installmentNumber ? String(t.installmentNumber) : '' },
+    { header: 'Total de parcelas', value: t => t.installmentCount ? String(t.installmentCount) : '' },
+    { header: 'Valor da compra', value: t => t.purchaseAmount !== undefined ? formatDecimalBR(t.purchaseAmount) : '' },
+    { header: 'Moeda original', value: t => t.originalCurrency || '' },
+    { header: 'Valor original', value: t => t.originalAmount !== undefined ? formatDecimalBR(t.originalAmount) : '' },
+    { header: 'Cotação', value: t => t.exchangeRate !== undefined ? String(t.exchangeRate).replace('.', ',') : '' },
+    { header: 'IOF (%)', value: t => t.iofRate !== undefined ? String(+(t.iofRate * 100).toFixed(4)).replace('.', ',') : '' },
+    { header: 'Mês da recorrência', value: t => t.recurringMonth || '' },
+    { header: 'Criado em', value: t => formatTimestampBR(t.createdAt) },
+    { header: 'Alterado em', value: t => t.updatedAt !== undefined ? formatTimestampBR(t.updatedAt) : '' },
+    { header: 'ID', value: t => t.id },
+    { header: 'ID da conta', value: t => t.accountId },
+    { header: 'ID da categoria', value: t => t.category },
+    { header: 'ID do parcelamento', value: t => t.installmentGroup || '' },
+    { header: 'ID da recorrência', value: t => t.recurringRuleId || '' },
+    { header: 'ID da compra estornada', value: t => t.refundOf || '' },
+    { header: 'ID externo', value: t => t.externalId || '' },
+  ];
+
+  const rows = [
+    columns.map(c => c.header),
+    ...transactions.map(t => columns.map(c => c.value(t))),
+  ];
+
+  // BOM para o Excel abrir em UTF-8 (acentos)
+  return '\uFEFF' + rows.map(row => row.map(escapeCell).join(SEPARATOR)).join('\r\n');
+};
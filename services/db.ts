@@ -1,103 +1,759 @@
-import { Transaction, MonthlyBudget, BackupData } from '../types';
+import { getSearchTokens } from './text';
+import { toCents } from './money';
+import { Transaction, MonthlyBudget, BackupData, Category, Account, RecurringRule, AppSettings, PaymentMethod, Snapshot, SnapshotReason, AuditAction, AuditEntry } from '../types';
 
 const DB_NAME = 'ExpenseManagerDB';
-const DB_VERSION = 2; // Incrementado para garantir migração se necessário
+const DB_VERSION = 15; // v15: valores em centavos inteiros
+export const BACKUP_VERSION = 7; // Formato do JSON de backup, independente do DB_VERSION
 const STORE_TRANSACTIONS = 'transactions';
 const STORE_BUDGETS = 'budgets';
+const STORE_CATEGORIES = 'categories';
+const STORE_LEGACY_CARDS = 'cards'; // v5-v8, migrado para accounts
+const STORE_ACCOUNTS = 'accounts';
+const STORE_RECURRING = 'recurring';
+const STORE_SETTINGS = 'settings';
+const STORE_SNAPSHOTS = 'snapshots';
+const STORE_AUDIT = 'audit'; // Histórico de alterações dos lançamentos (só inclusão; zerado ao restaurar backup)
+
+// Retenção dos pontos de restauração: os diários e os demais (manuais e automáticos) contam separado
+const DAILY_SNAPSHOTS_KEPT = 7;
+const OTHER_SNAPSHOTS_KEPT = 10;
+
+// Lançamentos na lixeira há mais tempo que isso são excluídos de vez ao abrir o app
+export const TRASH_RETENTION_DAYS = 30;
+
+export const UNCATEGORIZED_ID = 'sem-categoria';
+
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: UNCATEGORIZED_ID, name: 'Sem categoria', color: '#9ca3af', icon: 'tag', isDefault: true, createdAt: 0 },
+  { id: 'mercado', name: 'Mercado', color: '#10b981', icon: 'shopping-cart', isDefault: true, createdAt: 0 },
+  { id: 'alimentacao', name: 'Alimentação', color: '#f97316', icon: 'utensils', isDefault: true, createdAt: 0 },
+  { id: 'transporte', name: 'Transporte', color: '#3b82f6', icon: 'car', isDefault: true, createdAt: 0 },
+  { id: 'moradia', name: 'Moradia', color: '#8b5cf6', icon: 'home', isDefault: true, createdAt: 0 },
+  { id: 'lazer', name: 'Lazer', color: '#ec4899', icon: 'gamepad', isDefault: true, createdAt: 0 },
+  { id: 'saude', name: 'Saúde', color: '#ef4444', icon: 'heart-pulse', isDefault: true, createdAt: 0 },
+  { id: 'educacao', name: 'Educação', color: '#f59e0b', icon: 'graduation-cap', isDefault: true, createdAt: 0 },
+];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  balanceMode: false,
+  authorName: '',
+  exchangeRates: {},
+  iofRate: 0.035,
+};
+
+// Contas padrão: equivalem aos antigos DEBIT e CREDIT fixos
+export const DEFAULT_DEBIT_ACCOUNT_ID = 'conta-principal';
+export const DEFAULT_CREDIT_ACCOUNT_ID = 'cartao-principal';
+
+export const DEFAULT_ACCOUNTS: Account[] = [
+  { id: DEFAULT_DEBIT_ACCOUNT_ID, name: 'Débito', type: 'CHECKING', color: '#10b981', createdAt: 0 },
+  { id: DEFAULT_CREDIT_ACCOUNT_ID, name: 'Cartão de Crédito', type: 'CREDIT_CARD', color: '#3b82f6', closingDay: 25, dueDay: 5, createdAt: 0 },
+];
+
+export const getAccountMethod = (account: Pick<Account, 'type'>): PaymentMethod =>
+  account.type === 'CREDIT_CARD' ? 'CREDIT' : 'DEBIT';
+
+// Registros de versões anteriores podem não ter categoria/conta e ainda ter cardId
+type LegacyRecord<T> = Omit<T, 'accountId'> & { accountId?: string; cardId?: string };
+
+const legacyAccountId = (r: { method: PaymentMethod; cardId?: string }) =>
+  r.method === 'CREDIT' ? (r.cardId || DEFAULT_CREDIT_ACCOUNT_ID) : DEFAULT_DEBIT_ACCOUNT_ID;
+
+// Toda gravação recalcula as palavras da descrição usadas pelo índice de busca
+const withSearchTokens = (t: Transaction): Transaction => ({ ...t, searchTokens: getSearchTokens(t.description) });
+
+// Edições feitas pelo app marcam a hora da gravação; migrações e restaurações preservam a original
+const touch = <T extends object>(record: T): T => ({ ...record, updatedAt: Date.now() });
+
+// Garante que registros antigos caiam em "Sem categoria", na conta equivalente ao método
+// e tenham as palavras de busca
+export const migrateTransaction = (t: LegacyRecord<Transaction>): Transaction => {
+  const { cardId, ...rest } = t;
+  return withSearchTokens({
+    ...rest,
+    category: t.category || UNCATEGORIZED_ID,
+    accountId: t.accountId || legacyAccountId(t),
+  });
+};
+
+// Lançamentos na lixeira ficam fora de todas as consultas, totais e buscas
+const isActive = (t: Transaction) => !t.deletedAt;
+
+// Mais recentes primeiro: data, depois hora, depois criação
+const compareByDateDesc = (a: Transaction, b: Transaction) => {
+  if (a.date !== b.date) return b.date.localeCompare(a.date);
+  if (a.time && b.time && a.time !== b.time) return b.time.localeCompare(a.time);
+  return b.createdAt - a.createdAt;
+};
+
+export const migrateRecurringRule = (r: LegacyRecord<RecurringRule>): RecurringRule => {
+  const { cardId, ...rest } = r;
+  return { ...rest, accountId: r.accountId || legacyAccountId(r) };
+};
+
+export const legacyCardToAccount = (card: NonNullable<BackupData['cards']>[number]): Account => ({
+  ...card,
+  type: 'CREDIT_CARD',
+  color: '#3b82f6',
+});
+
+// v15 (backup v7): valores deixam de ser reais em float e passam a centavos inteiros
+export const transactionToCents = (t: Transaction): Transaction => ({
+  ...t,
+  amount: toCents(t.amount),
+  ...(t.purchaseAmount !== undefined && { purchaseAmount: toCents(t.purchaseAmount) }),
+});
+
+export const recurringRuleToCents = (r: RecurringRule): RecurringRule => ({ ...r, amount: toCents(r.amount) });
+
+export const budgetToCents = (b: MonthlyBudget): MonthlyBudget => ({
+  ...b,
+  limit: toCents(b.limit),
+  ...(b.categoryLimits && {
+    categoryLimits: Object.fromEntries(Object.entries(b.categoryLimits).map(([id, limit]) => [id, toCents(limit)])),
+  }),
+});
+
+export const accountToCents = (a: Account): Account => a.limit === undefined ? a : { ...a, limit: toCents(a.limit) };
+
+// --- Notificações de mudança ---
+
+// Enviada depois que a gravação é confirmada. Lançamentos vêm com os registros gravados,
+// para quem já tem a lista carregada só aplicar a diferença (applyTransactionChange)
+export type DbChange =
+  | { type: 'transactions'; saved: Transaction[]; removed: string[] } // removed: foram para a lixeira ou excluídos
+  | { type: 'budgets'; months: string[] }
+  | { type: 'categories' | 'accounts' | 'recurring' | 'settings' }
+  | { type: 'reset' }; // Restauração, mesclagem ou limpeza: qualquer dado pode ter mudado
+
+// blocked: esta aba precisa atualizar o banco, mas outra aberta numa versão antiga ainda não liberou
+// outdated: outra aba atualizou o banco para uma versão mais nova do app; esta precisa recarregar
+export type ConnectionState = 'ready' | 'blocked' | 'outdated';
+
+const changeListeners = new Set<(change: DbChange) => void>();
+const connectionListeners = new Set<(state: ConnectionState) => void>();
+let connectionState: ConnectionState = 'ready';
+
+const setConnectionState = (state: ConnectionState) => {
+  connectionState = state;
+  connectionListeners.forEach(listener => listener(state));
+};
+
+// Outras abas e janelas do app (PWA instalado, navegador) recebem as mesmas notificações.
+// O BroadcastChannel não entrega a mensagem para quem a enviou, então não há eco.
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(`${DB_NAME}-changes`) : null;
+if (channel) channel.onmessage = (event: MessageEvent<DbChange>) => emit(event.data);
+
+// Devolve a função que cancela a inscrição
+export const subscribe = (listener: (change: DbChange) => void): (() => void) => {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+};
+
+// O listener recebe o estado atual na hora da inscrição
+export const subscribeConnection = (listener: (state: ConnectionState) => void): (() => void) => {
+  connectionListeners.add(listener);
+  listener(connectionState);
+  return () => {
+    connectionListeners.delete(listener);
+  };
+};
+
+const emit = (change: DbChange) => changeListeners.forEach(listener => listener(change));
+
+const notify = (change: DbChange) => {
+  emit(change);
+  channel?.postMessage(change);
+};
+
+/**
+ * Executa a consulta e a repete a cada mudança para a qual `affects` devolve true.
+ * Resultados de execuções ultrapassadas por outra mais nova são descartados.
+ */
+export const liveQuery = <T>(
+  query: () => Promise<T>,
+  affects: (change: DbChange) => boolean,
+  onResult: (result: T) => void
+): (() => void) => {
+  let latest = 0;
+  const run = () => {
+    const current = ++latest;
+    query()
+      .then(result => {
+        if (current === latest) onResult(result);
+      })
+      .catch(error => console.error('Live query failed', error));
+  };
+
+  run();
+  const unsubscribe = subscribe(change => {
+    if (affects(change)) run();
+  });
+  return () => {
+    latest = -1;
+    unsubscribe();
+  };
+};
+
+// Aplica uma notificação a uma lista já carregada: tira o que mudou e recoloca o que ainda pertence a ela
+export const applyTransactionChange = (
+  list: Transaction[],
+  change: Extract<DbChange, { type: 'transactions' }>,
+  belongs: (t: Transaction) => boolean
+): Transaction[] => {
+  const changedIds = new Set([...change.removed, ...change.saved.map(t => t.id)]);
+  return [...list.filter(t => !changedIds.has(t.id)), ...change.saved.filter(belongs)].sort(compareByDateDesc);
+};
+
+// --- Conexão ---
+
+// Uma única conexão por aba, aberta na primeira consulta e reaproveitada pelas seguintes
+let connection: Promise<IDBDatabase> | null = null;
 
 const openDB = (): Promise<IDBDatabase> => {
+  if (!connection) {
+    connection = connect();
+    connection.catch(() => {
+      connection = null; // A próxima consulta tenta abrir de novo
+    });
+  }
+  return connection;
+};
+
+const connect = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // O banco já está numa versão mais nova que este código (aba aberta antes de uma atualização)
+      if (request.error?.name === 'VersionError') setConnectionState('outdated');
+      reject(request.error);
+    };
+    request.onblocked = () => setConnectionState('blocked');
+    request.onsuccess = () => {
+      const db = request.result;
+      // Outra aba vai atualizar ou apagar o banco: fechar libera a operação e a próxima consulta reabre.
+      // Se for uma atualização para versão mais nova, esta aba não consegue mais abrir sem recarregar.
+      db.onversionchange = (event) => {
+        db.close();
+        connection = null;
+        if (event.newVersion !== null && event.newVersion > DB_VERSION) setConnectionState('outdated');
+      };
+      // Fechada pelo navegador (ex: dados do site apagados)
+      db.onclose = () => {
+        connection = null;
+      };
+      setConnectionState('ready');
+      resolve(db);
+    };
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
+      const upgradeTx = (event.target as IDBOpenDBRequest).transaction!;
       
       if (!db.objectStoreNames.contains(STORE_TRANSACTIONS)) {
         const store = db.createObjectStore(STORE_TRANSACTIONS, { keyPath: 'id' });
         store.createIndex('date', 'date', { unique: false });
       }
 
+      const transactionStore = upgradeTx.objectStore(STORE_TRANSACTIONS);
+      if (!transactionStore.indexNames.contains('installmentGroup')) {
+        transactionStore.createIndex('installmentGroup', 'installmentGroup', { unique: false });
+      }
+      if (!transactionStore.indexNames.contains('recurringRuleId')) {
+        transactionStore.createIndex('recurringRuleId', 'recurringRuleId', { unique: false });
+      }
+      if (!transactionStore.indexNames.contains('refundOf')) {
+        transactionStore.createIndex('refundOf', 'refundOf', { unique: false });
+      }
+      if (!transactionStore.indexNames.contains('searchTokens')) {
+        transactionStore.createIndex('searchTokens', 'searchTokens', { unique: false, multiEntry: true });
+      }
+      if (!transactionStore.indexNames.contains('category')) {
+        transactionStore.createIndex('category', 'category', { unique: false });
+      }
+      if (!transactionStore.indexNames.contains('amount')) {
+        transactionStore.createIndex('amount', 'amount', { unique: false });
+      }
+      if (!transactionStore.indexNames.contains('externalId')) {
+        transactionStore.createIndex('externalId', 'externalId', { unique: false });
+      }
+      // Só registros com deletedAt entram no índice: ele é a própria lixeira
+      if (!transactionStore.indexNames.contains('deletedAt')) {
+        transactionStore.createIndex('deletedAt', 'deletedAt', { unique: false });
+      }
+
       if (!db.objectStoreNames.contains(STORE_BUDGETS)) {
         db.createObjectStore(STORE_BUDGETS, { keyPath: 'month' });
       }
+
+      if (!db.objectStoreNames.contains(STORE_CATEGORIES)) {
+        const store = db.createObjectStore(STORE_CATEGORIES, { keyPath: 'id' });
+        DEFAULT_CATEGORIES.forEach(c => store.add(c));
+      }
+
+      if (!db.objectStoreNames.contains(STORE_ACCOUNTS)) {
+        const store = db.createObjectStore(STORE_ACCOUNTS, { keyPath: 'id' });
+        DEFAULT_ACCOUNTS.forEach(a => store.add(a));
+      }
+
+      if (!db.objectStoreNames.contains(STORE_RECURRING)) {
+        db.createObjectStore(STORE_RECURRING, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(STORE_SETTINGS)) {
+        db.createObjectStore(STORE_SETTINGS, { keyPath: 'key' });
+      }
+
+      if (!db.objectStoreNames.contains(STORE_SNAPSHOTS)) {
+        const store = db.createObjectStore(STORE_SNAPSHOTS, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(STORE_AUDIT)) {
+        const store = db.createObjectStore(STORE_AUDIT, { keyPath: 'id' });
+        store.createIndex('transactionId', 'transactionId', { unique: false });
+        store.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+
+      // v3/v9/v10: transações existentes ganham categoria ("Sem categoria"), conta e
+      // palavras de busca; v15: valores em centavos.
+      // Um único cursor aplica todas as migrações para não haver updates concorrentes.
+      if (event.oldVersion > 0 && event.oldVersion < 15) {
+        transactionStore.openCursor().onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          const migrated = event.oldVersion < 10 ? migrateTransaction(cursor.value) : cursor.value;
+          cursor.update(transactionToCents(migrated));
+          cursor.continue();
+        };
+      }
+
+      if (event.oldVersion > 0 && event.oldVersion < 15) {
+        upgradeTx.objectStore(STORE_RECURRING).openCursor().onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          const migrated = event.oldVersion < 9 ? migrateRecurringRule(cursor.value) : cursor.value;
+          cursor.update(recurringRuleToCents(migrated));
+          cursor.continue();
+        };
+
+        upgradeTx.objectStore(STORE_BUDGETS).openCursor().onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          cursor.update(budgetToCents(cursor.value));
+          cursor.continue();
+        };
+
+        // getAll (e não cursor) para a leitura acontecer antes de os cartões antigos, abaixo, virarem contas
+        const accountStore = upgradeTx.objectStore(STORE_ACCOUNTS);
+        accountStore.getAll().onsuccess = (e) => {
+          (e.target as IDBRequest<Account[]>).result.forEach(a => accountStore.put(accountToCents(a)));
+        };
+      }
+
+      // v15: versões anteriores do histórico de alterações guardam os lançamentos em reais
+      if (event.oldVersion === 14) {
+        upgradeTx.objectStore(STORE_AUDIT).openCursor().onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          const entry: AuditEntry = cursor.value;
+          cursor.update({
+            ...entry,
+            ...(entry.before && { before: transactionToCents(entry.before) }),
+            ...(entry.after && { after: transactionToCents(entry.after) }),
+          });
+          cursor.continue();
+        };
+      }
+
+      // v9: cartões (v5-v8) viram contas do tipo CREDIT_CARD, mantendo os ids (limite já em centavos)
+      if (db.objectStoreNames.contains(STORE_LEGACY_CARDS)) {
+        const accountStore = upgradeTx.objectStore(STORE_ACCOUNTS);
+        upgradeTx.objectStore(STORE_LEGACY_CARDS).getAll().onsuccess = (e) => {
+          const cards = (e.target as IDBRequest).result;
+          cards.forEach((card: NonNullable<BackupData['cards']>[number]) => accountStore.put(accountToCents(legacyCardToAccount(card))));
+          db.deleteObjectStore(STORE_LEGACY_CARDS);
+        };
+      }
     };
   });
 };
 
-export const addTransaction = async (transaction: Transaction): Promise<void> => {
+// Operações disponíveis dentro de auditedWrite
+interface AuditedWriter {
+  store: IDBObjectStore;
+  save: (after: Transaction, before: Transaction | undefined, action?: AuditAction) => void; // Grava como recebido
+  put: (t: Transaction, action?: AuditAction) => void; // Busca a versão atual, marca updatedAt e grava
+  remove: (before: Transaction) => void; // Exclusão definitiva (PURGE)
+}
+
+// O histórico guarda o registro sem as palavras de busca, que são recalculadas ao gravar
+const auditCopy = (t: Transaction | undefined): Transaction | undefined => {
+  if (!t) return undefined;
+  const { searchTokens, ...rest } = t;
+  return rest;
+};
+
+/**
+ * Abre uma transação de escrita em lançamentos que registra cada gravação no histórico
+ * (STORE_AUDIT) atomicamente: se a gravação falhar, o registro do histórico também some.
+ * O autor (preferência authorName) é lido primeiro, na mesma transação, e só então as gravações começam.
+ * `rules` são regras recorrentes gravadas na mesma transação que os lançamentos.
+ */
+const auditedWrite = async (write: (writer: AuditedWriter) => void, rules: RecurringRule[] = []): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_TRANSACTIONS, 'readwrite');
+    const stores = [STORE_TRANSACTIONS, STORE_AUDIT, STORE_SETTINGS, ...(rules.length > 0 ? [STORE_RECURRING] : [])];
+    const tx = db.transaction(stores, 'readwrite');
     const store = tx.objectStore(STORE_TRANSACTIONS);
-    const request = store.add(transaction);
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+    const auditStore = tx.objectStore(STORE_AUDIT);
+    const change: DbChange = { type: 'transactions', saved: [], removed: [] };
+    let author: string | undefined;
+
+    const log = (transactionId: string, action: AuditAction, before?: Transaction, after?: Transaction) => {
+      const entry: AuditEntry = {
+        id: crypto.randomUUID(),
+        transactionId,
+        action,
+        timestamp: Date.now(),
+        author,
+        before: auditCopy(before),
+        after: auditCopy(after),
+      };
+      auditStore.add(entry);
+    };
+
+    const save = (after: Transaction, before: Transaction | undefined, action?: AuditAction) => {
+      const record = withSearchTokens(after);
+      store.put(record);
+      if (isActive(record)) change.saved.push(record);
+      else change.removed.push(record.id);
+      log(record.id, action || (before ? 'UPDATE' : 'CREATE'), before, record);
+    };
+
+    if (rules.length > 0) {
+      const ruleStore = tx.objectStore(STORE_RECURRING);
+      rules.forEach(r => ruleStore.put(r));
+    }
+
+    tx.objectStore(STORE_SETTINGS).get('authorName').onsuccess = (e) => {
+      author = (e.target as IDBRequest<{ value: string } | undefined>).result?.value.trim() || undefined;
+      write({
+        store,
+        save,
+        put: (t, action) => {
+          store.get(t.id).onsuccess = (e) => save(touch(t), (e.target as IDBRequest<Transaction | undefined>).result, action);
+        },
+        remove: (before) => {
+          store.delete(before.id);
+          change.removed.push(before.id);
+          log(before.id, 'PURGE', before);
+        },
+      });
+    };
+
+    tx.oncomplete = () => {
+      if (change.saved.length > 0 || change.removed.length > 0) notify(change);
+      if (rules.length > 0) notify({ type: 'recurring' });
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
   });
 };
 
+export const addTransaction = async (transaction: Transaction): Promise<void> => {
+  return auditedWrite(({ put }) => put(transaction));
+};
+
 export const updateTransaction = async (transaction: Transaction): Promise<void> => {
+  return auditedWrite(({ put }) => put(transaction));
+};
+
+// Exclusão definitiva (lixeira, séries recorrentes); a exclusão comum é trashTransactions
+export const deleteTransaction = async (id: string): Promise<void> => {
+  return deleteTransactions([id]);
+};
+
+export const addTransactions = async (transactions: Transaction[]): Promise<void> => {
+  return auditedWrite(({ put }) => transactions.forEach(t => put(t)));
+};
+
+// Grava só os que ainda não existem (nem na lixeira): ids determinísticos, como os das
+// ocorrências recorrentes, não podem sobrescrever um registro movido ou apagado
+export const addMissingTransactions = async (transactions: Transaction[]): Promise<void> => {
+  return auditedWrite(({ store, put }) => {
+    transactions.forEach(t => {
+      store.count(t.id).onsuccess = (e) => {
+        if ((e.target as IDBRequest<number>).result === 0) put(t);
+      };
+    });
+  });
+};
+
+export const deleteTransactions = async (ids: string[]): Promise<void> => {
+  return auditedWrite(({ store, remove }) => {
+    ids.forEach(id => {
+      store.get(id).onsuccess = (e) => {
+        const t = (e.target as IDBRequest<Transaction | undefined>).result;
+        if (t) remove(t);
+      };
+    });
+  });
+};
+
+// Regrava registros exatamente como eram (ex: desfazer uma edição)
+export const putTransactions = async (transactions: Transaction[]): Promise<void> => {
+  return auditedWrite(({ put }) => transactions.forEach(t => put(t)));
+};
+
+// --- Lixeira ---
+
+// Exclusão pelo app: o registro fica guardado com deletedAt até ser restaurado ou expirar
+export const trashTransactions = async (ids: string[]): Promise<void> => {
+  const deletedAt = Date.now();
+  return auditedWrite(({ store, save }) => {
+    ids.forEach(id => {
+      store.get(id).onsuccess = (e) => {
+        const t = (e.target as IDBRequest<Transaction | undefined>).result;
+        if (t) save(touch({ ...t, deletedAt }), t, 'DELETE');
+      };
+    });
+  });
+};
+
+/**
+ * Tira os lançamentos da lixeira. Um estorno traz de volta a compra original, e a compra
+ * traz os estornos apagados junto com ela (mesmo deletedAt), para nada ficar órfão.
+ */
+export const restoreFromTrash = async (ids: string[]): Promise<void> => {
+  return auditedWrite(({ store, save }) => {
+    const visited = new Set<string>();
+
+    const restore = (t: Transaction | undefined) => {
+      if (!t?.deletedAt || visited.has(t.id)) return;
+      visited.add(t.id);
+      const { deletedAt, ...rest } = t;
+      save(touch(rest), t, 'RESTORE');
+
+      if (t.refundOf) store.get(t.refundOf).onsuccess = (e) => restore((e.target as IDBRequest<Transaction>).result);
+      store.index('refundOf').getAll(t.id).onsuccess = (e) =>
+        (e.target as IDBRequest<Transaction[]>).result.filter(r => r.deletedAt === deletedAt).forEach(restore);
+    };
+
+    ids.forEach(id => {
+      store.get(id).onsuccess = (e) => restore((e.target as IDBRequest<Transaction>).result);
+    });
+  });
+};
+
+// Itens da lixeira, apagados mais recentemente primeiro
+export const getTrash = async (): Promise<Transaction[]> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_TRANSACTIONS, 'readwrite');
-    const store = tx.objectStore(STORE_TRANSACTIONS);
-    const request = store.put(transaction); // put atualiza se a chave existir
-    request.onsuccess = () => resolve();
+    const tx = db.transaction(STORE_TRANSACTIONS, 'readonly');
+    const request = tx.objectStore(STORE_TRANSACTIONS).index('deletedAt').getAll();
+    request.onsuccess = () => resolve((request.result as Transaction[]).reverse());
     request.onerror = () => reject(request.error);
   });
 };
 
-export const deleteTransaction = async (id: string): Promise<void> => {
+// Exclui de vez o que está na lixeira há mais de TRASH_RETENTION_DAYS dias
+export const purgeExpiredTrash = async (): Promise<void> => {
+  const limit = Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return auditedWrite(({ store, remove }) => {
+    store.index('deletedAt').getAll(IDBKeyRange.upperBound(limit)).onsuccess = (e) => {
+      (e.target as IDBRequest<Transaction[]>).result.forEach(remove);
+    };
+  });
+};
+
+// --- Histórico de alterações ---
+
+// Versões de um lançamento, mais recentes primeiro
+// Registro exatamente como está gravado (inclusive na lixeira); undefined se não existir
+export const getTransaction = async (id: string): Promise<Transaction | undefined> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_TRANSACTIONS, 'readwrite');
-    const store = tx.objectStore(STORE_TRANSACTIONS);
-    const request = store.delete(id);
-    request.onsuccess = () => resolve();
+    const tx = db.transaction(STORE_TRANSACTIONS, 'readonly');
+    const request = tx.objectStore(STORE_TRANSACTIONS).get(id);
+    request.onsuccess = () => resolve(request.result as Transaction | undefined);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getTransactionHistory = async (transactionId: string): Promise<AuditEntry[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_AUDIT, 'readonly');
+    const request = tx.objectStore(STORE_AUDIT).index('transactionId').getAll(transactionId);
+    request.onsuccess = () => resolve((request.result as AuditEntry[]).sort((a, b) => b.timestamp - a.timestamp));
     request.onerror = () => reject(request.error);
   });
 };
 
+// Volta o lançamento para uma versão do histórico; a reversão também entra no histórico.
+// Se estiver na lixeira ou já tiver sido excluído, o lançamento volta a ficar ativo.
+export const revertTransaction = async (version: Transaction): Promise<void> => {
+  const { deletedAt, ...rest } = version;
+  return auditedWrite(({ put }) => put(rest, 'REVERT'));
+};
+
+// --- Compras parceladas ---
+
+export const getInstallmentSeries = async (groupId: string): Promise<Transaction[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_TRANSACTIONS, 'readonly');
+    const index = tx.objectStore(STORE_TRANSACTIONS).index('installmentGroup');
+    const request = index.getAll(groupId);
+    request.onsuccess = () => {
+      const results = (request.result as Transaction[]).filter(isActive);
+      results.sort((a, b) => (a.installmentNumber || 0) - (b.installmentNumber || 0));
+      resolve(results);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Substitui toda a série pelas novas parcelas numa única transação.
+// Parcelas que não existem mais (ex: 10x -> 6x) são removidas; as da lixeira ficam lá.
+// Um lançamento à vista que vira parcela ainda não está na série: é buscado pelo id para o
+// histórico registrar a alteração (e não uma criação).
+export const replaceInstallmentSeries = async (groupId: string, installments: Transaction[]): Promise<void> => {
+  return auditedWrite(({ store, save, put, remove }) => {
+    const keepIds = new Set(installments.map(t => t.id));
+
+    store.index('installmentGroup').getAll(groupId).onsuccess = (e) => {
+      const current = (e.target as IDBRequest<Transaction[]>).result;
+      current.filter(t => isActive(t) && !keepIds.has(t.id)).forEach(remove);
+      installments.forEach(t => {
+        const before = current.find(c => c.id === t.id);
+        if (before) save(touch(t), before);
+        else put(t);
+      });
+    };
+  });
+};
+
+export const getAllTransactions = async (): Promise<Transaction[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_TRANSACTIONS, 'readonly');
+    const request = tx.objectStore(STORE_TRANSACTIONS).getAll();
+    request.onsuccess = () => {
+      const results = (request.result as Transaction[]).filter(isActive);
+      results.sort(compareByDateDesc);
+      resolve(results);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Quais dos ids já existem, contando os da lixeira
+export const getExistingTransactionIds = async (ids: string[]): Promise<Set<string>> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_TRANSACTIONS, 'readonly');
+    const store = tx.objectStore(STORE_TRANSACTIONS);
+    const existing = new Set<string>();
+    ids.forEach(id => {
+      store.count(id).onsuccess = (e) => {
+        if ((e.target as IDBRequest<number>).result > 0) existing.add(id);
+      };
+    });
+    tx.oncomplete = () => resolve(existing);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
 export const getTransactionsByMonth = async (month: string): Promise<Transaction[]> => {
+  return getTransactionsByDateRange(`${month}-01`, `${month}-31`);
+};
+
+// Intervalo inclusivo de datas YYYY-MM-DD (usado também pela visão por fatura)
+export const getTransactionsByDateRange = async (start: string, end: string): Promise<Transaction[]> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_TRANSACTIONS, 'readonly');
     const store = tx.objectStore(STORE_TRANSACTIONS);
     const index = store.index('date');
-    const start = `${month}-01`;
-    const end = `${month}-31`; 
     const range = IDBKeyRange.bound(start, end);
     
     const request = index.getAll(range);
     
     request.onsuccess = () => {
-      const results = request.result as Transaction[];
-      // Sort by date desc, then time desc, then created desc
-      results.sort((a, b) => {
-        if (a.date !== b.date) return b.date.localeCompare(a.date);
-        if (a.time && b.time && a.time !== b.time) return b.time.localeCompare(a.time);
-        return b.createdAt - a.createdAt;
-      });
+      const results = (request.result as Transaction[]).filter(isActive);
+      results.sort(compareByDateDesc);
       resolve(results);
     };
     request.onerror = () => reject(request.error);
   });
 };
 
+// --- Importação de extratos ---
+
+// Quais dos ids externos (ex: FITID do OFX) já foram importados. Os da lixeira contam:
+// restaurá-los depois não pode gerar duplicatas.
+export const getExistingExternalIds = async (externalIds: string[]): Promise<Set<string>> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_TRANSACTIONS, 'readonly');
+    const index = tx.objectStore(STORE_TRANSACTIONS).index('externalId');
+    const existing = new Set<string>();
+    externalIds.forEach(id => {
+      index.count(id).onsuccess = (e) => {
+        if ((e.target as IDBRequest<number>).result > 0) existing.add(id);
+      };
+    });
+    tx.oncomplete = () => resolve(existing);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// --- Busca ---
+
+const getTransactionsByIndex = async (indexName: string, query: IDBValidKey | IDBKeyRange): Promise<Transaction[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_TRANSACTIONS, 'readonly');
+    const request = tx.objectStore(STORE_TRANSACTIONS).index(indexName).getAll(query);
+    request.onsuccess = () => {
+      const results = (request.result as Transaction[]).filter(isActive);
+      results.sort(compareByDateDesc);
+      resolve(results);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Palavras da descrição que começam com `prefix` (já normalizado): "enc" acha "encanador"
+export const getTransactionsByTokenPrefix = (prefix: string): Promise<Transaction[]> =>
+  getTransactionsByIndex('searchTokens', IDBKeyRange.bound(prefix, `${prefix}\uffff`));
+
+export const getTransactionsByCategory = (categoryId: string): Promise<Transaction[]> =>
+  getTransactionsByIndex('category', categoryId);
+
+export const getTransactionsByAmountRange = (min: number, max: number): Promise<Transaction[]> =>
+  getTransactionsByIndex('amount', IDBKeyRange.bound(min, max));
+
 export const setMonthlyBudget = async (budget: MonthlyBudget): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_BUDGETS, 'readwrite');
-    const store = tx.objectStore(STORE_BUDGETS);
-    const request = store.put(budget);
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+    tx.objectStore(STORE_BUDGETS).put(touch(budget));
+    tx.oncomplete = () => {
+      notify({ type: 'budgets', months: [budget.month] });
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
   });
 };
 
-export const getMonthlyBudget = async (month: string): Promise<number> => {
+export const getMonthlyBudget = async (month: string): Promise<MonthlyBudget> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_BUDGETS, 'readonly');
@@ -105,23 +761,235 @@ export const getMonthlyBudget = async (month: string): Promise<number> => {
     const request = store.get(month);
     request.onsuccess = () => {
       const data = request.result as MonthlyBudget | undefined;
-      resolve(data ? data.limit : 0);
+      resolve({ month, limit: data ? data.limit : 0, categoryLimits: data?.categoryLimits || {} });
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Orçamentos gravados entre dois meses (YYYY-MM, inclusivo); meses sem registro ficam de fora
+export const getMonthlyBudgets = async (startMonth: string, endMonth: string): Promise<MonthlyBudget[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_BUDGETS, 'readonly');
+    const request = tx.objectStore(STORE_BUDGETS).getAll(IDBKeyRange.bound(startMonth, endMonth));
+    request.onsuccess = () => resolve(request.result as MonthlyBudget[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getCategories = async (): Promise<Category[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_CATEGORIES, 'readonly');
+    const store = tx.objectStore(STORE_CATEGORIES);
+    const request = store.getAll();
+    request.onsuccess = () => {
+      const results = request.result as Category[];
+      // Padrões primeiro (na ordem de criação), depois as do usuário por nome
+      results.sort((a, b) => {
+        if (!!a.isDefault !== !!b.isDefault) return a.isDefault ? -1 : 1;
+        if (a.isDefault) return DEFAULT_CATEGORIES.findIndex(c => c.id === a.id) - DEFAULT_CATEGORIES.findIndex(c => c.id === b.id);
+        return a.name.localeCompare(b.name, 'pt-BR');
+      });
+      resolve(results);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const addCategory = async (category: Category): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_CATEGORIES, 'readwrite');
+    tx.objectStore(STORE_CATEGORIES).add(category);
+    tx.oncomplete = () => {
+      notify({ type: 'categories' });
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getAccounts = async (): Promise<Account[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_ACCOUNTS, 'readonly');
+    const store = tx.objectStore(STORE_ACCOUNTS);
+    const request = store.getAll();
+    request.onsuccess = () => {
+      const results = request.result as Account[];
+      results.sort((a, b) => a.createdAt - b.createdAt);
+      resolve(results);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveAccount = async (account: Account): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_ACCOUNTS, 'readwrite');
+    tx.objectStore(STORE_ACCOUNTS).put(touch(account));
+    tx.oncomplete = () => {
+      notify({ type: 'accounts' });
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// --- Estornos ---
+
+export const getRefunds = async (transactionId: string): Promise<Transaction[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_TRANSACTIONS, 'readonly');
+    const index = tx.objectStore(STORE_TRANSACTIONS).index('refundOf');
+    const request = index.getAll(transactionId);
+    request.onsuccess = () => resolve((request.result as Transaction[]).filter(isActive));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// --- Regras recorrentes ---
+
+export const getRecurringRules = async (): Promise<RecurringRule[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_RECURRING, 'readonly');
+    const store = tx.objectStore(STORE_RECURRING);
+    const request = store.getAll();
+    request.onsuccess = () => {
+      const results = request.result as RecurringRule[];
+      results.sort((a, b) => a.dayOfMonth - b.dayOfMonth || a.description.localeCompare(b.description, 'pt-BR'));
+      resolve(results);
     };
     request.onerror = () => reject(request.error);
   });
 };
 
+export const saveRecurringRule = async (rule: RecurringRule): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_RECURRING, 'readwrite');
+    tx.objectStore(STORE_RECURRING).put(touch(rule));
+    tx.oncomplete = () => {
+      notify({ type: 'recurring' });
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const deleteRecurringRule = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_RECURRING, 'readwrite');
+    tx.objectStore(STORE_RECURRING).delete(id);
+    tx.oncomplete = () => {
+      notify({ type: 'recurring' });
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+/**
+ * Grava as regras e troca as ocorrências ativas de `ruleId` a partir de `fromMonth` pelas
+ * geradas por `rebuild`, numa única transação. Ocorrências que mantêm o id ficam registradas
+ * como alteração; as que mudam de id (passaram para uma nova regra) saem do banco.
+ */
+export const replaceRecurringOccurrences = async (
+  rules: RecurringRule[],
+  ruleId: string,
+  fromMonth: string,
+  rebuild: (occurrence: Transaction) => Transaction
+): Promise<void> => {
+  return auditedWrite(({ store, save, remove }) => {
+    store.index('recurringRuleId').getAll(ruleId).onsuccess = (e) => {
+      const current = (e.target as IDBRequest<Transaction[]>).result
+        .filter(t => isActive(t) && t.recurringMonth && t.recurringMonth >= fromMonth);
+      const rebuilt = current.map(rebuild);
+      const keepIds = new Set(rebuilt.map(t => t.id));
+      current.filter(t => !keepIds.has(t.id)).forEach(remove);
+      rebuilt.forEach(t => save(touch(t), current.find(c => c.id === t.id)));
+    };
+  }, rules);
+};
+
+export const getTransactionsByRecurringRule = async (ruleId: string): Promise<Transaction[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_TRANSACTIONS, 'readonly');
+    const index = tx.objectStore(STORE_TRANSACTIONS).index('recurringRuleId');
+    const request = index.getAll(ruleId);
+    request.onsuccess = () => resolve((request.result as Transaction[]).filter(isActive));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// --- Preferências ---
+
+export const getSettings = async (): Promise<AppSettings> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_SETTINGS, 'readonly');
+    const store = tx.objectStore(STORE_SETTINGS);
+    const request = store.getAll();
+    request.onsuccess = () => {
+      const settings: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+      (request.result as { key: string; value: unknown }[]).forEach(({ key, value }) => {
+        settings[key] = value;
+      });
+      resolve(settings as unknown as AppSettings);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const setSetting = async <K extends keyof AppSettings>(key: K, value: AppSettings[K]): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_SETTINGS, 'readwrite');
+    tx.objectStore(STORE_SETTINGS).put({ key, value });
+    tx.oncomplete = () => {
+      notify({ type: 'settings' });
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
 // --- Funções de Gerenciamento de Dados (Backup/Restore) ---
 
+// Apaga os dados e recria categorias e contas padrão dentro da transação recebida.
+// Os pontos de restauração ficam de fora: são eles que permitem desfazer a limpeza.
+const resetStores = (tx: IDBTransaction) => {
+  tx.objectStore(STORE_TRANSACTIONS).clear();
+  tx.objectStore(STORE_BUDGETS).clear();
+  tx.objectStore(STORE_RECURRING).clear();
+
+  // Categorias do usuário são apagadas, mas as padrões sempre existem
+  const categoryStore = tx.objectStore(STORE_CATEGORIES);
+  categoryStore.clear();
+  DEFAULT_CATEGORIES.forEach(c => categoryStore.put(c));
+
+  const accountStore = tx.objectStore(STORE_ACCOUNTS);
+  accountStore.clear();
+  DEFAULT_ACCOUNTS.forEach(a => accountStore.put(a));
+};
+
 export const clearAllData = async (): Promise<void> => {
+  await createSnapshot('BEFORE_CLEAR');
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const tx = db.transaction([STORE_TRANSACTIONS, STORE_BUDGETS], 'readwrite');
-    
-    tx.objectStore(STORE_TRANSACTIONS).clear();
-    tx.objectStore(STORE_BUDGETS).clear();
-
-    tx.oncomplete = () => resolve();
+    const tx = db.transaction([STORE_TRANSACTIONS, STORE_BUDGETS, STORE_CATEGORIES, STORE_ACCOUNTS, STORE_RECURRING], 'readwrite');
+    resetStores(tx);
+    tx.oncomplete = () => {
+      notify({ type: 'reset' });
+      resolve();
+    };
     tx.onerror = () => reject(tx.error);
   });
 };
@@ -137,34 +1005,151 @@ export const exportDatabase = async (): Promise<BackupData> => {
     });
   };
 
-  const [transactions, budgets] = await Promise.all([
+  const [transactions, budgets, categories, accounts, recurringRules, settings] = await Promise.all([
     getStoreData(STORE_TRANSACTIONS),
-    getStoreData(STORE_BUDGETS)
+    getStoreData(STORE_BUDGETS),
+    getStoreData(STORE_CATEGORIES),
+    getStoreData(STORE_ACCOUNTS),
+    getStoreData(STORE_RECURRING),
+    getSettings()
   ]);
 
   return {
-    version: 1,
+    version: BACKUP_VERSION,
     timestamp: Date.now(),
     transactions,
-    budgets
+    budgets,
+    categories,
+    accounts,
+    recurringRules,
+    settings
   };
 };
 
+/**
+ * Substitui todos os dados pelos do backup, que já deve estar migrado para BACKUP_VERSION
+ * e validado (services/backup.ts). Limpeza e gravação acontecem na mesma transação:
+ * se qualquer gravação falhar, o IndexedDB desfaz tudo e os dados atuais continuam intactos.
+ * O histórico de alterações é zerado junto: ele descreve os registros descartados, e
+ * "restaurar versão" não pode trazer de volta dados de fora do backup.
+ */
 export const importDatabase = async (data: BackupData): Promise<void> => {
-  // Limpa tudo antes de importar para evitar conflitos/duplicatas estranhas
-  await clearAllData();
-  
+  await createSnapshot('BEFORE_RESTORE');
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const tx = db.transaction([STORE_TRANSACTIONS, STORE_BUDGETS], 'readwrite');
-    
+    const tx = db.transaction([STORE_TRANSACTIONS, STORE_BUDGETS, STORE_CATEGORIES, STORE_ACCOUNTS, STORE_RECURRING, STORE_SETTINGS, STORE_AUDIT], 'readwrite');
+    resetStores(tx);
+    tx.objectStore(STORE_AUDIT).clear();
+
     const txStore = tx.objectStore(STORE_TRANSACTIONS);
-    data.transactions.forEach(t => txStore.add(t));
-    
+    data.transactions.forEach(t => txStore.add(withSearchTokens(t)));
+
     const budgetStore = tx.objectStore(STORE_BUDGETS);
-    data.budgets.forEach(b => budgetStore.add(b));
+    data.budgets.forEach(b => budgetStore.add({ ...b, categoryLimits: b.categoryLimits || {} }));
+
+    const categoryStore = tx.objectStore(STORE_CATEGORIES);
+    (data.categories || []).forEach(c => categoryStore.put(c));
+
+    const accountStore = tx.objectStore(STORE_ACCOUNTS);
+    (data.accounts || []).forEach(a => accountStore.put(a));
 
-    tx.oncomplete = () => resolve();
+    const recurringStore = tx.objectStore(STORE_RECURRING);
+    (data.recurringRules || []).forEach(r => recurringStore.put(r));
+
+    // Preferências não são apagadas na restauração; o backup apenas as sobrescreve
+    const settingsStore = tx.objectStore(STORE_SETTINGS);
+    Object.entries(data.settings || {}).forEach(([key, value]) => settingsStore.put({ key, value }));
+
+    tx.oncomplete = () => {
+      notify({ type: 'reset' });
+      resolve();
+    };
     tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
   });
+};
+
+/**
+ * Grava o resultado de uma mesclagem (services/merge.ts): só inclui e sobrescreve, nunca apaga.
+ * Tudo numa única transação, então uma falha não deixa a mesclagem pela metade.
+ * Assim como a restauração, não passa pelo histórico de alterações: o ponto de restauração cobre esse caso.
+ */
+export const mergeDatabase = async (changes: Omit<BackupData, 'version' | 'timestamp' | 'cards'>): Promise<void> => {
+  await createSnapshot('BEFORE_MERGE');
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([STORE_TRANSACTIONS, STORE_BUDGETS, STORE_CATEGORIES, STORE_ACCOUNTS, STORE_RECURRING, STORE_SETTINGS], 'readwrite');
+
+    const txStore = tx.objectStore(STORE_TRANSACTIONS);
+    changes.transactions.forEach(t => txStore.put(withSearchTokens(t)));
+
+    const budgetStore = tx.objectStore(STORE_BUDGETS);
+    changes.budgets.forEach(b => budgetStore.put({ ...b, categoryLimits: b.categoryLimits || {} }));
+
+    const categoryStore = tx.objectStore(STORE_CATEGORIES);
+    (changes.categories || []).forEach(c => categoryStore.put(c));
+
+    const accountStore = tx.objectStore(STORE_ACCOUNTS);
+    (changes.accounts || []).forEach(a => accountStore.put(a));
+
+    const recurringStore = tx.objectStore(STORE_RECURRING);
+    (changes.recurringRules || []).forEach(r => recurringStore.put(r));
+
+    const settingsStore = tx.objectStore(STORE_SETTINGS);
+    Object.entries(changes.settings || {}).forEach(([key, value]) => settingsStore.put({ key, value }));
+
+    tx.oncomplete = () => {
+      notify({ type: 'reset' });
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// --- Pontos de restauração ---
+
+/**
+ * Guarda uma cópia completa do banco e aplica a retenção na mesma transação,
+ * removendo os snapshots mais antigos além do limite do seu grupo (diários ou demais).
+ */
+export const createSnapshot = async (reason: SnapshotReason): Promise<Snapshot> => {
+  const data = await exportDatabase();
+  const snapshot: Snapshot = { id: crypto.randomUUID(), createdAt: Date.now(), reason, data };
+
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_SNAPSHOTS, 'readwrite');
+    const store = tx.objectStore(STORE_SNAPSHOTS);
+    store.add(snapshot);
+
+    store.getAll().onsuccess = (e) => {
+      const all = (e.target as IDBRequest<Snapshot[]>).result.sort((a, b) => b.createdAt - a.createdAt);
+      const daily = all.filter(s => s.reason === 'DAILY');
+      const others = all.filter(s => s.reason !== 'DAILY');
+      [...daily.slice(DAILY_SNAPSHOTS_KEPT), ...others.slice(OTHER_SNAPSHOTS_KEPT)].forEach(s => store.delete(s.id));
+    };
+
+    tx.oncomplete = () => resolve(snapshot);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// Mais recentes primeiro
+export const getSnapshots = async (): Promise<Snapshot[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_SNAPSHOTS, 'readonly');
+    const request = tx.objectStore(STORE_SNAPSHOTS).index('createdAt').getAll();
+    request.onsuccess = () => resolve((request.result as Snapshot[]).reverse());
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Chamado ao abrir o app: no máximo um snapshot diário por dia (data local)
+export const createDailySnapshot = async (): Promise<void> => {
+  const today = new Date().toLocaleDateString('sv');
+  const snapshots = await getSnapshots();
+  const hasToday = snapshots.some(s => s.reason === 'DAILY' && new Date(s.createdAt).toLocaleDateString('sv') === today);
+  if (!hasToday) await createSnapshot('DAILY');
 };
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { Transaction, Cents } from '../types';
+
+export type TransactionSort = 'DATE' | 'AMOUNT_DESC' | 'AMOUNT_ASC' | 'DESCRIPTION';
+
+export interface TransactionFilter {
+  accountIds: string[]; // Vazio = todas as contas
+  categoryIds: string[]; // Vazio = todas as categorias
+  minAmount?: Cents;
+  maxAmount?: Cents;
+  fromDay?: number; // Dia do mês (1-31), inclusivo
+  toDay?: number;
+}
+
+export const EMPTY_FILTER: TransactionFilter = { accountIds: [], categoryIds: [] };
+
+export const countActiveFilters = (filter: TransactionFilter): number =>
+  (filter.accountIds.length > 0 ? 1 : 0)
+  + (filter.categoryIds.length > 0 ? 1 : 0)
+  + (filter.minAmount !== undefined || filter.maxAmount !== undefined ? 1 : 0)
+  + (filter.fromDay !== undefined || filter.toDay !== undefined ? 1 : 0);
+
+// Receitas não têm categoria: com filtro de categoria ativo, ficam de fora
+export const applyFilter = (transactions: Transaction[], filter: TransactionFilter): Transaction[] =>
+  transactions.filter(t => {
+    if (filter.accountIds.length > 0 && !filter.accountIds.includes(t.accountId)) return false;
+    if (filter.categoryIds.length > 0 && (t.kind === 'INCOME' || !filter.categoryIds.includes(t.category))) return false;
+    if (filter.minAmount !== undefined && Math.abs(t.amount) < filter.minAmount) return false;
+    if (filter.maxAmount !== undefined && Math.abs(t.amount) > filter.maxAmount) return false;
+    const day = Number(t.date.slice(8, 10));
+    if (filter.fromDay !== undefined && day < filter.fromDay) return false;
+    if (filter.toDay !== undefined && day > filter.toDay) return false;
+    return true;
+  });
+
+// DATE mantém a ordem do banco (data, hora e criação, mais recentes primeiro)
+export const sortTransactions = (transactions: Transaction[], sort: TransactionSort): Transaction[] => {
+  if (sort === 'DATE') return transactions;
+  return [...transactions].sort((a, b) => {
+    if (sort === 'AMOUNT_DESC') return Math.abs(b.amount) - Math.abs(a.amount);
+    if (sort === 'AMOUNT_ASC') return Math.abs(a.amount) - Math.abs(b.amount);
+    return a.description.localeCompare(b.description, 'pt-BR');
+  });
+};
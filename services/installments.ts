@@ -0,0 +1,53 @@
+import { Transaction, Cents } from '../types';
+
+export const MAX_INSTALLMENTS = 24;
+
+// Soma meses a uma data YYYY-MM-DD mantendo o dia (limitado ao último dia do mês)
+export const addMonthsToDate = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(year, month - 1 + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(day, lastDay));
+  return target.toLocaleDateString('sv');
+};
+
+// Divide o total em parcelas sem perder centavos: a diferença fica na primeira
+export const splitAmount = (total: Cents, count: number): Cents[] => {
+  const base = Math.floor(total / count);
+  const remainder = total - base * count;
+  return Array.from({ length: count }, (_, i) => (i === 0 ? base + remainder : base));
+};
+
+/**
+ * Gera os registros de uma compra parcelada a partir dos dados do formulário.
+ * `data.amount` é o valor total da compra e `data.date` a data da primeira parcela.
+ * Compras em moeda estrangeira também têm o valor original dividido entre as parcelas.
+ * Ids existentes são reaproveitados por número de parcela ao editar uma série.
+ */
+export const buildInstallmentSeries = (
+  data: Omit<Transaction, 'id' | 'createdAt'>,
+  count: number,
+  groupId: string,
+  createdAt: number,
+  existing: Transaction[] = []
+): Transaction[] => {
+  const amounts = splitAmount(data.amount, count);
+  const originalAmounts = data.originalAmount !== undefined ? splitAmount(data.originalAmount, count) : undefined;
+
+  return amounts.map((amount, i) => {
+    const number = i + 1;
+    const previous = existing.find(t => t.installmentNumber === number);
+    return {
+      ...data,
+      id: previous ? previous.id : crypto.randomUUID(),
+      createdAt: previous ? previous.createdAt : createdAt,
+      amount,
+      ...(originalAmounts && { originalAmount: originalAmounts[i] }),
+      date: addMonthsToDate(data.date, i),
+      installmentGroup: groupId,
+      installmentNumber: number,
+      installmentCount: count,
+      purchaseAmount: data.amount,
+    };
+  });
+};
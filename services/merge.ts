@@ -0,0 +1,129 @@
+import { BackupData, Transaction } from '../types';
+import { normalizeText } from './text';
+
+// Quem vence quando o mesmo id existe nos dois lados com conteúdo diferente
+export type ConflictPolicy = 'NEWEST' | 'KEEP_LOCAL' | 'KEEP_INCOMING';
+
+type MergeData = Omit<BackupData, 'version' | 'timestamp' | 'cards'>;
+
+export type MergeStore = 'transactions' | 'budgets' | 'categories' | 'accounts' | 'recurringRules';
+
+export interface MergeCount {
+  added: number; // Id novo: será incluído
+  updated: number; // Id existente com conteúdo diferente: a versão do arquivo venceu
+  skipped: number; // Igual ao local, conflito vencido pelo local ou possível duplicata
+}
+
+// Lançamento do arquivo com id novo, mas mesmo dia, valor e descrição de um local
+export interface DuplicateCandidate {
+  incoming: Transaction;
+  local: Transaction;
+}
+
+export interface MergePlan {
+  changes: MergeData; // Registros a gravar
+  counts: Record<MergeStore, MergeCount>;
+  duplicates: DuplicateCandidate[];
+}
+
+type Versioned = { createdAt?: number; updatedAt?: number };
+
+const modifiedAt = (record: Versioned) => record.updatedAt ?? record.createdAt ?? 0;
+
+// Compara o conteúdo ignorando a ordem das chaves e campos derivados (searchTokens)
+const fingerprint = (record: object) =>
+  JSON.stringify(
+    Object.entries(record)
+      .filter(([key, value]) => key !== 'searchTokens' && value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+
+const mergeRecords = <T extends object>(
+  local: T[],
+  incoming: T[],
+  keyOf: (record: T) => string,
+  policy: ConflictPolicy
+): { records: T[]; count: MergeCount } => {
+  const localByKey = new Map(local.map(r => [keyOf(r), r]));
+  const records: T[] = [];
+  const count: MergeCount = { added: 0, updated: 0, skipped: 0 };
+
+  incoming.forEach(record => {
+    const current = localByKey.get(keyOf(record));
+    if (!current) {
+      records.push(record);
+      count.added++;
+      return;
+    }
+    const incomingWins = fingerprint(current) !== fingerprint(record) && (
+      policy === 'KEEP_INCOMING'
+      || (policy === 'NEWEST' && modifiedAt(record as Versioned) > modifiedAt(current as Versioned))
+    );
+    if (incomingWins) {
+      records.push(record);
+      count.updated++;
+    } else {
+      count.skipped++;
+    }
+  });
+
+  return { records, count };
+};
+
+const byId = <T extends { id: string }>(record: T) => record.id;
+
+const isSameEntry = (a: Transaction, b: Transaction) =>
+  a.date === b.date
+  && a.amount === b.amount
+  && normalizeText(a.description) === normalizeText(b.description);
+
+/**
+ * Calcula o que uma restauração em modo mesclagem faria, sem gravar nada.
+ * Registros são casados por id (orçamentos, pelo mês). Possíveis duplicatas ficam de
+ * fora, a não ser que o id esteja em acceptedDuplicates.
+ * Preferências só são trocadas com KEEP_INCOMING, já que não têm data de alteração.
+ */
+export const planMerge = (
+  local: MergeData,
+  incoming: MergeData,
+  policy: ConflictPolicy,
+  acceptedDuplicates: Set<string> = new Set()
+): MergePlan => {
+  const localIds = new Set(local.transactions.map(t => t.id));
+  const duplicates: DuplicateCandidate[] = [];
+  incoming.transactions.forEach(t => {
+    if (localIds.has(t.id)) return;
+    const match = local.transactions.find(l => isSameEntry(l, t));
+    if (match) duplicates.push({ incoming: t, local: match });
+  });
+
+  const rejected = new Set(duplicates.map(d => d.incoming.id).filter(id => !acceptedDuplicates.has(id)));
+
+  const transactions = mergeRecords(
+    local.transactions, incoming.transactions.filter(t => !rejected.has(t.id)), byId, policy
+  );
+  transactions.count.skipped += rejected.size;
+  const budgets = mergeRecords(local.budgets, incoming.budgets, b => b.month, policy);
+  const categories = mergeRecords(local.categories || [], incoming.categories || [], byId, policy);
+  const accounts = mergeRecords(local.accounts || [], incoming.accounts || [], byId, policy);
+  const recurringRules = mergeRecords(local.recurringRules || [], incoming.recurringRules || [], byId, policy);
+
+  return {
+    changes: {
+      transactions: transactions.records,
+      budgets: budgets.records,
+      categories: categories.records,
+      accounts: accounts.records,
+      recurringRules: recurringRules.records,
+      settings: policy === 'KEEP_INCOMING' ? incoming.settings : undefined,
+    },
+    counts: {
+      transactions: transactions.count,
+      budgets: budgets.count,
+      categories: categories.count,
+      accounts: accounts.count,
+      recurringRules: recurringRules.count,
+    },
+    duplicates,
+  };
+};
@@ -0,0 +1,48 @@
+import { Cents, ForeignCurrency } from '../types';
+
+// Valores em reais vindos de fora (arquivos, versões antigas do banco) para centavos inteiros
+export const toCents = (reais: number): Cents => Math.round(reais * 100);
+
+export const FOREIGN_CURRENCIES: Record<ForeignCurrency, string> = {
+  USD: 'Dólar',
+  EUR: 'Euro',
+  GBP: 'Libra',
+};
+
+// compact: versão curta para gráficos (R$ 1,2 mil)
+export const formatCurrency = (cents: Cents, currency: ForeignCurrency | 'BRL' = 'BRL', { compact = false } = {}) =>
+  new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency,
+    ...(compact && { notation: 'compact', maximumFractionDigits: 1 }),
+  }).format(cents / 100);
+
+// IOF acima disso é erro de digitação (ex: "350" em vez de "3,50")
+export const MAX_IOF_RATE = 0.1;
+
+export const isValidIofRate = (rate: number) => rate >= 0 && rate <= MAX_IOF_RATE;
+
+// Valor em moeda estrangeira para reais: cotação manual e IOF opcional, arredondado ao centavo
+export const convertToBRL = (originalAmount: Cents, exchangeRate: number, iofRate = 0): Cents =>
+  Math.round(originalAmount * exchangeRate * (1 + iofRate));
+
+// Valor já gravado para o formato dos campos de digitação: 125050 -> "1.250,50"
+export const centsToInput = (cents: Cents) =>
+  (cents / 100).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Máscara dos campos de valor: os dígitos digitados são os centavos ("125050" -> "1.250,50")
+export const formatMoneyInput = (input: string) => {
+  const value = input.replace(/\D/g, '');
+  return value === '' ? '' : centsToInput(parseInt(value, 10));
+};
+
+// Campo formatado de volta para centavos: "1.250,50" -> 125050 (NaN quando vazio).
+// Como os campos sempre têm duas casas decimais, basta juntar os dígitos, sem passar por float.
+export const parseMoneyInput = (value: string): Cents => parseInt(value.replace(/\D/g, ''), 10);
+
+// Cotações e percentuais aceitam mais casas que os valores: "5,4321" -> 5.4321 (NaN quando vazio)
+export const parseDecimalInput = (value: string) =>
+  parseFloat(value.trim().replace(/\./g, '').replace(',', '.'));
+
+export const formatDecimal = (value: number, maxDigits = 4) =>
+  value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: maxDigits });
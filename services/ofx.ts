@@ -0,0 +1,136 @@
+import { Transaction, Account, Cents } from '../types';
+import * as db from './db';
+import { parseAmount } from './statementImport';
+
+export interface OfxTransaction {
+  fitId: string;
+  type: string; // TRNTYPE: DEBIT, CREDIT, PAYMENT, XFER...
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM (12:00 quando o banco não informa)
+  amount: Cents; // Negativo = saída de dinheiro, inclusive em faturas de cartão
+  description: string;
+}
+
+export interface OfxStatement {
+  bankAccountId: string; // ACCTID (conta ou final do cartão)
+  isCreditCard: boolean; // CCSTMTRS em vez de STMTRS
+  currency: string;
+  transactions: OfxTransaction[];
+}
+
+export interface OfxSkipped {
+  transaction: OfxTransaction;
+  reason: string;
+}
+
+export interface OfxImportResult {
+  added: OfxTransaction[];
+  skipped: OfxSkipped[];
+}
+
+// Bancos brasileiros ainda exportam OFX 1.x em Windows-1252 (CHARSET:1252)
+export const decodeOfx = (buffer: ArrayBuffer): string => {
+  const head = new TextDecoder('ascii').decode(buffer.slice(0, 512));
+  const isLatin = /CHARSET:\s*(1252|ISO-8859-1)/i.test(head) || /encoding="(windows-1252|iso-8859-1)"/i.test(head);
+  return new TextDecoder(isLatin ? 'windows-1252' : 'utf-8').decode(buffer);
+};
+
+// Lê o valor de um elemento folha. No SGML (1.x) folhas não têm tag de fechamento,
+// no XML (2.x) têm; nos dois casos o valor vai até o próximo "<" ou fim da linha.
+const readTag = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+// YYYYMMDD[HHMMSS[.XXX]][[-3:BRT]]
+const parseOfxDate = (value: string) => {
+  const date = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+  const time = value.length >= 12 && value.slice(8, 12) !== '0000'
+    ? `${value.slice(8, 10)}:${value.slice(10, 12)}`
+    : '12:00';
+  return { date, time };
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+export const parseOfx = (text: string): OfxStatement => {
+  const start = text.search(/<OFX>/i);
+  if (start < 0) throw new Error('Arquivo não parece ser um OFX válido.');
+  const body = text.slice(start);
+
+  const blocks = body.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+  const transactions = blocks.map(block => {
+    const { date, time } = parseOfxDate(readTag(block, 'DTPOSTED'));
+    const amount = parseAmount(readTag(block, 'TRNAMT'));
+    const memo = readTag(block, 'MEMO');
+    const name = readTag(block, 'NAME');
+    return {
+      fitId: readTag(block, 'FITID'),
+      type: readTag(block, 'TRNTYPE').toUpperCase(),
+      date,
+      time,
+      amount: amount ?? NaN,
+      description: decodeEntities(memo || name || 'Sem descrição'),
+    };
+  });
+
+  return {
+    bankAccountId: readTag(body, 'ACCTID'),
+    isCreditCard: /<CCSTMTRS>/i.test(body),
+    currency: readTag(body, 'CURDEF') || 'BRL',
+    transactions,
+  };
+};
+
+const externalIdOf = (statement: OfxStatement, t: OfxTransaction) =>
+  `ofx:${statement.bankAccountId}:${t.fitId}`;
+
+/**
+ * Grava as entradas ainda não importadas. O FITID (prefixado pela conta do banco)
+ * vira Transaction.externalId, então reimportar o mesmo arquivo não duplica nada.
+ */
+export const importOfxStatement = async (statement: OfxStatement, account: Account): Promise<OfxImportResult> => {
+  const method = db.getAccountMethod(account);
+  const isCard = account.type === 'CREDIT_CARD';
+  const existing = await db.getExistingExternalIds(statement.transactions.map(t => externalIdOf(statement, t)));
+
+  const added: OfxTransaction[] = [];
+  const skipped: OfxSkipped[] = [];
+  const seen = new Set<string>();
+  const records: Transaction[] = [];
+
+  statement.transactions.forEach(t => {
+    const externalId = externalIdOf(statement, t);
+    const reason = !t.fitId ? 'Sem FITID'
+      : isNaN(t.amount) || t.amount === 0 ? 'Valor inválido'
+      : !/^\d{4}-\d{2}-\d{2}$/.test(t.date) ? 'Data inválida'
+      : existing.has(externalId) || seen.has(externalId) ? 'Já importado'
+      // Cartão não recebe receitas: pagamento da fatura e créditos ficam de fora
+      : isCard && t.amount > 0 ? 'Pagamento/crédito no cartão'
+      : null;
+    if (reason) {
+      skipped.push({ transaction: t, reason });
+      return;
+    }
+
+    seen.add(externalId);
+    added.push(t);
+    records.push({
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      description: t.description,
+      amount: Math.abs(t.amount),
+      kind: t.amount < 0 ? 'EXPENSE' : 'INCOME',
+      accountId: account.id,
+      method,
+      category: db.UNCATEGORIZED_ID,
+      date: t.date,
+      time: t.time,
+      externalId,
+    });
+  });
+
+  if (records.length > 0) await db.addTransactions(records);
+  return { added, skipped };
+};
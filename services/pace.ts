@@ -0,0 +1,49 @@
+import { Transaction } from '../types';
+
+export interface SpendingPace {
+  daysInMonth: number;
+  cumulative: number[]; // Gasto acumulado ao fim de cada dia (índice 0 = dia 1)
+  elapsedDays: number; // Dias já vividos do mês: todos para meses passados, 0 para futuros
+  spentSoFar: number; // Acumulado até hoje (ou o total, em meses passados)
+  scheduled: number; // Lançamentos com data depois de hoje (parcelas, recorrentes)
+  projected: number; // Total previsto para o fim do mês
+  status: 'PAST' | 'CURRENT' | 'FUTURE';
+}
+
+/**
+ * Curva de gasto acumulado do mês. No mês corrente, projeta o total pelo ritmo
+ * médio dos dias já vividos mais o que já está agendado para depois de hoje.
+ * Lançamentos datados antes do mês (visão por fatura) entram no dia 1.
+ */
+export const getSpendingPace = (expenses: Transaction[], month: string, today: string): SpendingPace => {
+  const [year, m] = month.split('-').map(Number);
+  const daysInMonth = new Date(year, m, 0).getDate();
+
+  const daily = new Array(daysInMonth).fill(0);
+  expenses.forEach(t => {
+    const day = t.date.startsWith(month) ? Number(t.date.slice(8, 10)) : 1;
+    daily[Math.min(day, daysInMonth) - 1] += t.amount;
+  });
+
+  let running = 0;
+  const cumulative = daily.map(value => (running += value));
+  const total = running;
+
+  const todayMonth = today.slice(0, 7);
+  const status = month < todayMonth ? 'PAST' : month > todayMonth ? 'FUTURE' : 'CURRENT';
+  const elapsedDays = status === 'PAST' ? daysInMonth : status === 'FUTURE' ? 0 : Number(today.slice(8, 10));
+  const spentSoFar = elapsedDays > 0 ? cumulative[elapsedDays - 1] : 0;
+  const scheduled = total - spentSoFar;
+
+  const projected = status === 'CURRENT'
+    ? (spentSoFar / elapsedDays) * daysInMonth + scheduled
+    : total;
+
+  return { daysInMonth, cumulative, elapsedDays, spentSoFar, scheduled, projected, status };
+};
+
+// Quanto ainda dá para gastar por dia, contando hoje, sem estourar o limite
+export const getDailyAllowance = (pace: SpendingPace, limit: number): number => {
+  const remainingDays = pace.daysInMonth - pace.elapsedDays + 1;
+  return (limit - pace.spentSoFar - pace.scheduled) / remainingDays;
+};
@@ -0,0 +1,160 @@
+import { RecurringRule, Transaction } from '../types';
+import * as db from './db';
+import { addMonthsToDate } from './installments';
+
+export interface PendingOccurrence {
+  rule: RecurringRule;
+  month: string; // YYYY-MM
+  date: string; // YYYY-MM-DD
+}
+
+export type RecurrenceScope = 'THIS' | 'FUTURE';
+
+const shiftMonth = (month: string, offset: number) => addMonthsToDate(`${month}-01`, offset).slice(0, 7);
+
+// Id determinístico: materializar o mesmo mês duas vezes não duplica lançamentos
+const occurrenceId = (ruleId: string, month: string) => `${ruleId}:${month}`;
+
+export const getOccurrenceDate = (rule: RecurringRule, month: string): string => {
+  const [year, m] = month.split('-').map(Number);
+  const lastDay = new Date(year, m, 0).getDate();
+  return `${month}-${String(Math.min(rule.dayOfMonth, lastDay)).padStart(2, '0')}`;
+};
+
+export const isRuleActiveInMonth = (rule: RecurringRule, month: string): boolean => {
+  if (month < rule.startMonth) return false;
+  if (rule.endMonth && month > rule.endMonth) return false;
+  if (rule.frequency === 'YEARLY' && month.slice(5) !== rule.startMonth.slice(5)) return false;
+  return !rule.skippedMonths.includes(month);
+};
+
+export const buildOccurrence = (rule: RecurringRule, month: string): Transaction => ({
+  id: occurrenceId(rule.id, month),
+  description: rule.description,
+  amount: rule.amount,
+  accountId: rule.accountId,
+  method: rule.method,
+  category: rule.category,
+  date: getOccurrenceDate(rule, month),
+  time: '12:00',
+  createdAt: Date.now(),
+  recurringRuleId: rule.id,
+  recurringMonth: month,
+});
+
+// Regras ativas no mês que ainda não têm lançamento, separadas entre as que serão geradas e as pendentes.
+// A ocorrência conta como gerada se há lançamento da regra no mês ou se o seu id já existe
+// em qualquer data ou na lixeira (movida para outro mês, apagada sem registrar o pulo).
+const splitOccurrences = async (month: string, currentMonth: string) => {
+  const [rules, monthTransactions] = await Promise.all([
+    db.getRecurringRules(),
+    db.getTransactionsByMonth(month),
+  ]);
+  const activeRules = rules.filter(rule => isRuleActiveInMonth(rule, month));
+  const existingIds = await db.getExistingTransactionIds(activeRules.map(rule => occurrenceId(rule.id, month)));
+
+  const materialized = new Set(
+    monthTransactions.filter(t => t.recurringRuleId).map(t => t.recurringRuleId)
+  );
+
+  const toCreate: Transaction[] = [];
+  const pending: PendingOccurrence[] = [];
+
+  activeRules
+    .filter(rule => !materialized.has(rule.id) && !existingIds.has(occurrenceId(rule.id, month)))
+    .forEach(rule => {
+      if (rule.autoConfirm && month <= currentMonth) {
+        toCreate.push(buildOccurrence(rule, month));
+      } else {
+        pending.push({ rule, month, date: getOccurrenceDate(rule, month) });
+      }
+    });
+
+  return { toCreate, pending };
+};
+
+/**
+ * Gera as ocorrências do mês: regras com confirmação automática viram lançamentos
+ * (somente até o mês corrente); as demais são devolvidas como pendentes.
+ */
+export const materializeRecurring = async (month: string, currentMonth: string): Promise<PendingOccurrence[]> => {
+  const { toCreate, pending } = await splitOccurrences(month, currentMonth);
+
+  if (toCreate.length > 0) {
+    await db.addMissingTransactions(toCreate);
+  }
+
+  return pending;
+};
+
+// Só consulta, sem gerar lançamentos: usado para atualizar a tela durante uma sequência de gravações,
+// quando materializar poderia recriar uma ocorrência que está sendo apagada
+export const getPendingOccurrences = async (month: string, currentMonth: string): Promise<PendingOccurrence[]> => {
+  const { pending } = await splitOccurrences(month, currentMonth);
+  return pending;
+};
+
+export const confirmOccurrence = async (occurrence: PendingOccurrence): Promise<void> => {
+  await db.updateTransaction(buildOccurrence(occurrence.rule, occurrence.month));
+};
+
+// Pular (ou apagar) uma ocorrência impede que ela seja gerada de novo
+export const skipOccurrence = async (ruleId: string, month: string): Promise<void> => {
+  const rule = (await db.getRecurringRules()).find(r => r.id === ruleId);
+  if (!rule || rule.skippedMonths.includes(month)) return;
+  await db.saveRecurringRule({ ...rule, skippedMonths: [...rule.skippedMonths, month] });
+};
+
+/**
+ * "Esta e as próximas": a regra original passa a terminar no mês anterior e uma
+ * nova regra assume a partir de `fromMonth`. Ocorrências já geradas a partir desse
+ * mês são atualizadas com os novos valores. Devolve o id da regra que vale a partir
+ * de `fromMonth` (a própria regra quando a mudança pega desde o início).
+ */
+export const applyToFutureOccurrences = async (
+  ruleId: string,
+  fromMonth: string,
+  data: Omit<Transaction, 'id' | 'createdAt'>
+): Promise<string | undefined> => {
+  const rule = (await db.getRecurringRules()).find(r => r.id === ruleId);
+  if (!rule) return undefined;
+
+  const changes = {
+    description: data.description,
+    amount: data.amount,
+    accountId: data.accountId,
+    method: data.method,
+    category: data.category,
+    dayOfMonth: Number(data.date.slice(8, 10)),
+  };
+
+  let target: RecurringRule;
+  const rules: RecurringRule[] = [];
+  if (fromMonth <= rule.startMonth) {
+    target = { ...rule, ...changes };
+  } else {
+    rules.push({
+      ...rule,
+      endMonth: shiftMonth(fromMonth, -1),
+      skippedMonths: rule.skippedMonths.filter(m => m < fromMonth),
+    });
+    target = {
+      ...rule,
+      ...changes,
+      id: crypto.randomUUID(),
+      startMonth: fromMonth,
+      skippedMonths: rule.skippedMonths.filter(m => m >= fromMonth),
+      createdAt: Date.now(),
+    };
+  }
+  rules.push(target);
+
+  // Ids determinísticos mudam junto com a regra, então as ocorrências são regravadas.
+  // Regras e ocorrências vão na mesma transação: uma falha no meio não perde nada.
+  await db.replaceRecurringOccurrences(rules, rule.id, fromMonth, t => ({
+    ...buildOccurrence(target, t.recurringMonth!),
+    time: t.recurringMonth === fromMonth ? data.time : t.time,
+    createdAt: t.createdAt,
+  }));
+  return target.id;
+};
@@ -0,0 +1,94 @@
+import { Transaction, Category, Cents } from '../types';
+import * as db from './db';
+import { normalizeText, getSearchTokens } from './text';
+
+export interface SearchQuery {
+  text: string; // Palavras da descrição ou nome de categoria
+  minAmount?: Cents;
+  maxAmount?: Cents;
+  startDate?: string; // YYYY-MM-DD inclusivo
+  endDate?: string;
+}
+
+export interface SearchMonthGroup {
+  month: string; // YYYY-MM
+  transactions: Transaction[];
+  spent: Cents; // Gastos menos estornos
+  income: Cents;
+}
+
+export const isEmptyQuery = (query: SearchQuery) =>
+  !query.text.trim() && query.minAmount === undefined && query.maxAmount === undefined
+  && !query.startDate && !query.endDate;
+
+const intersectById = (lists: Transaction[][]): Transaction[] => {
+  const [first, ...rest] = lists;
+  const others = rest.map(list => new Set(list.map(t => t.id)));
+  return first.filter(t => others.every(ids => ids.has(t.id)));
+};
+
+// Texto: todas as palavras precisam aparecer na descrição (por prefixo),
+// ou o texto inteiro bate com o nome de uma categoria
+const searchByText = async (text: string, categories: Category[]): Promise<Transaction[]> => {
+  const tokens = getSearchTokens(text);
+  const normalized = normalizeText(text.trim());
+  const matchingCategories = categories.filter(c => normalizeText(c.name).includes(normalized));
+
+  const [byTokens, ...byCategory] = await Promise.all([
+    tokens.length > 0
+      ? Promise.all(tokens.map(db.getTransactionsByTokenPrefix)).then(intersectById)
+      : Promise.resolve([]),
+    ...matchingCategories.map(c => db.getTransactionsByCategory(c.id)),
+  ]);
+
+  const seen = new Set<string>();
+  return [byTokens, ...byCategory].flat().filter(t => {
+    if (seen.has(t.id)) return false;
+    seen.add(t.id);
+    return true;
+  });
+};
+
+/**
+ * Busca em todos os meses. O critério mais seletivo disponível usa um índice
+ * (texto > valor > data); os demais filtros são aplicados em memória.
+ */
+export const searchTransactions = async (query: SearchQuery, categories: Category[]): Promise<Transaction[]> => {
+  if (isEmptyQuery(query)) return [];
+
+  const { text, minAmount, maxAmount, startDate, endDate } = query;
+  const hasAmount = minAmount !== undefined || maxAmount !== undefined;
+
+  let candidates: Transaction[];
+  if (text.trim()) {
+    candidates = await searchByText(text, categories);
+  } else if (hasAmount) {
+    candidates = await db.getTransactionsByAmountRange(minAmount ?? 0, maxAmount ?? Number.MAX_SAFE_INTEGER);
+  } else {
+    candidates = await db.getTransactionsByDateRange(startDate || '0000-01-01', endDate || '9999-12-31');
+  }
+
+  return candidates
+    .filter(t => minAmount === undefined || t.amount >= minAmount)
+    .filter(t => maxAmount === undefined || t.amount <= maxAmount)
+    .filter(t => !startDate || t.date >= startDate)
+    .filter(t => !endDate || t.date <= endDate)
+    .sort((a, b) => b.date.localeCompare(a.date) || (b.time || '').localeCompare(a.time || ''));
+};
+
+// Resultados (já ordenados do mais recente) agrupados por mês, com os totais de cada um
+export const groupByMonth = (transactions: Transaction[]): SearchMonthGroup[] => {
+  const groups: SearchMonthGroup[] = [];
+  transactions.forEach(t => {
+    const month = t.date.slice(0, 7);
+    let group = groups[groups.length - 1];
+    if (!group || group.month !== month) {
+      group = { month, transactions: [], spent: 0, income: 0 };
+      groups.push(group);
+    }
+    group.transactions.push(t);
+    if (t.kind === 'INCOME') group.income += t.amount;
+    else group.spent += t.amount;
+  });
+  return groups;
+};
@@ -0,0 +1,199 @@
+import { Transaction, Account, Cents } from '../types';
+import { UNCATEGORIZED_ID, getAccountMethod } from './db';
+import { normalizeText } from './text';
+import { toCents } from './money';
+
+export interface ColumnMapping {
+  description: number; // Índice da coluna no CSV (-1 = não mapeada)
+  amount: number;
+  date: number;
+  account: number; // -1 = uma única conta para o arquivo inteiro
+}
+
+// Extratos bancários costumam trazer gastos negativos; faturas de cartão, positivos
+export type AmountSign = 'NEGATIVE_IS_EXPENSE' | 'POSITIVE_IS_EXPENSE';
+
+export interface StatementRow {
+  line: number; // Linha no arquivo (1 = cabeçalho), para mensagens de erro
+  description: string;
+  amount: Cents; // Sempre positivo; o tipo define se é gasto ou receita
+  kind: 'EXPENSE' | 'INCOME';
+  date: string; // YYYY-MM-DD
+  accountValue: string; // Valor bruto da coluna de conta/método
+  error?: string; // Linha que não pôde ser interpretada
+}
+
+/**
+ * Lê o CSV detectando o separador pela primeira linha (";", "," ou tab).
+ * Campos entre aspas podem conter separadores, quebras de linha e aspas duplicadas.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const separator = [';', '\t', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c !== ''));
+};
+
+/**
+ * Aceita "1.234,56", "-1234.56", "R$ 1.234,56", "1234,5" e "(12,00)" (negativo contábil).
+ * Com ponto e vírgula presentes, o último é o separador decimal. Devolve centavos.
+ */
+export const parseAmount = (raw: string): Cents | null => {
+  let value = raw.replace(/R\$|\s/g, '');
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.startsWith('-')) {
+    negative = !negative;
+    value = value.slice(1);
+  } else if (value.endsWith('-')) {
+    negative = !negative;
+    value = value.slice(0, -1);
+  }
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else if (lastDot > lastComma && lastComma >= 0) {
+    value = value.replace(/,/g, '');
+  } else if (lastComma < 0 && /^\d{1,3}(\.\d{3})+$/.test(value)) {
+    // Só pontos em grupos de 3 dígitos: separador de milhar ("1.234")
+    value = value.replace(/\./g, '');
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(value)) return null;
+  const parsed = toCents(parseFloat(value));
+  return negative ? -parsed : parsed;
+};
+
+// DD/MM/AAAA, DD/MM/AA, DD-MM-AAAA, DD.MM.AAAA ou AAAA-MM-DD -> YYYY-MM-DD
+export const parseDate = (raw: string): string | null => {
+  const value = raw.trim().split(/[\sT]/)[0];
+  let year: number, month: number, day: number;
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const br = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (br) {
+    [day, month, year] = [Number(br[1]), Number(br[2]), Number(br[3])];
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date.toLocaleDateString('sv');
+};
+
+// Sugere o mapeamento pelos nomes usuais de cabeçalho dos bancos
+export const guessMapping = (header: string[]): ColumnMapping => {
+  const find = (pattern: RegExp) => header.findIndex(h => pattern.test(normalizeText(h)));
+  return {
+    description: find(/descri|histor|estabelec|lancamento|title|memo/),
+    amount: find(/valor|amount|quantia|montante/),
+    date: find(/data|date/),
+    account: find(/metodo|forma|cartao|conta|tipo/),
+  };
+};
+
+export const buildStatementRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  sign: AmountSign,
+  hasHeader: boolean
+): StatementRow[] => {
+  const offset = hasHeader ? 2 : 1;
+  return rows.slice(hasHeader ? 1 : 0).map((cells, i) => {
+    const amount = mapping.amount >= 0 ? parseAmount(cells[mapping.amount] || '') : null;
+    const date = mapping.date >= 0 ? parseDate(cells[mapping.date] || '') : null;
+    const description = mapping.description >= 0 ? (cells[mapping.description] || '').trim() : '';
+    const isExpense = amount !== null && (sign === 'NEGATIVE_IS_EXPENSE' ? amount < 0 : amount > 0);
+
+    let error: string | undefined;
+    if (!description) error = 'Sem descrição';
+    else if (amount === null || amount === 0) error = 'Valor inválido';
+    else if (!date) error = 'Data inválida';
+
+    return {
+      line: i + offset,
+      description,
+      amount: Math.abs(amount || 0),
+      kind: isExpense ? 'EXPENSE' : 'INCOME',
+      date: date || '',
+      accountValue: mapping.account >= 0 ? (cells[mapping.account] || '').trim() : '',
+      error,
+    };
+  });
+};
+
+// Valores da coluna de conta que lembram crédito vão para o primeiro cartão
+export const guessAccountForValue = (value: string, accounts: Account[]): string => {
+  const active = accounts.filter(a => !a.archived);
+  const isCredit = /cred/.test(normalizeText(value));
+  const byName = active.find(a => normalizeText(a.name) === normalizeText(value));
+  const byType = active.find(a => (a.type === 'CREDIT_CARD') === isCredit);
+  return (byName || byType || active[0] || accounts[0]).id;
+};
+
+// Mesmo dia, mesmo valor e mesma descrição de um lançamento existente
+export const isDuplicate = (row: StatementRow, existing: Transaction[]) =>
+  existing.some(t =>
+    t.date === row.date
+    && Math.abs(t.amount) === row.amount
+    && normalizeText(t.description) === normalizeText(row.description)
+  );
+
+export const toTransaction = (row: StatementRow, account: Account): Omit<Transaction, 'id' | 'createdAt'> => ({
+  description: row.description,
+  amount: row.amount,
+  kind: row.kind,
+  accountId: account.id,
+  method: getAccountMethod(account),
+  category: UNCATEGORIZED_ID,
+  date: row.date,
+  time: '12:00',
+});
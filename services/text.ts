@@ -0,0 +1,7 @@
+// Minúsculas e sem acentos: "Açougue São João" -> "acougue sao joao"
+export const normalizeText = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Palavras usadas no índice de busca (multiEntry) e para quebrar a consulta
+export const getSearchTokens = (text: string): string[] =>
+  Array.from(new Set(normalizeText(text).split(/[^a-z0-9]+/).filter(w => w.length > 0)));
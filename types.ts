@@ -1,18 +1,101 @@
+// Natureza do pagamento, derivada do tipo da conta (CREDIT_CARD = CREDIT)
 export type PaymentMethod = 'DEBIT' | 'CREDIT';
 
+export type AccountType = 'CHECKING' | 'PIX' | 'CASH' | 'BOLETO' | 'VOUCHER' | 'CREDIT_CARD';
+
+export type TransactionKind = 'EXPENSE' | 'INCOME';
+
+// Valores monetários em centavos inteiros (R$ 12,34 = 1234): somas sem erro de arredondamento
+export type Cents = number;
+
+// Moedas aceitas em gastos de viagem; o valor em reais continua em Transaction.amount
+export type ForeignCurrency = 'USD' | 'EUR' | 'GBP';
+
+export interface Category {
+  id: string;
+  name: string;
+  color: string; // Hex, ex: #10b981
+  icon: string; // Chave do ícone em CATEGORY_ICONS
+  isDefault?: boolean;
+  createdAt: number;
+}
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  color: string; // Hex, ex: #3b82f6
+  limit?: Cents; // Limite do cartão ou saldo mensal do VR/VA
+  closingDay?: number; // Somente CREDIT_CARD: dia de fechamento da fatura (1-31)
+  dueDay?: number; // Somente CREDIT_CARD: dia de vencimento da fatura (1-31)
+  archived?: boolean; // Arquivada: some dos seletores, mas mantém o histórico
+  createdAt: number;
+  updatedAt?: number; // Última gravação (ms); ausente = createdAt. Usado na mesclagem de backups
+}
+
 export interface Transaction {
   id: string;
   description: string;
-  amount: number;
+  amount: Cents;
+  kind?: TransactionKind; // Ausente = EXPENSE (registros anteriores às receitas)
+  accountId: string; // Account.id
   method: PaymentMethod;
+  category: string; // Category.id
   date: string; // ISO string YYYY-MM-DD
   time: string; // HH:MM
   createdAt: number;
+  updatedAt?: number; // Última gravação (ms); ausente = createdAt
+  // Compras parceladas: cada parcela é um registro com a data do seu mês
+  installmentGroup?: string; // Id compartilhado por todas as parcelas da série
+  installmentNumber?: number; // 1..installmentCount
+  installmentCount?: number;
+  purchaseAmount?: Cents; // Valor total da compra
+  // Lançamentos gerados por uma regra recorrente
+  recurringRuleId?: string;
+  recurringMonth?: string; // YYYY-MM da ocorrência
+  // Estorno: lançamento com amount negativo vinculado à compra original
+  refundOf?: string; // Transaction.id da compra estornada
+  // Moeda estrangeira: amount é o valor convertido em reais (com IOF), que conta no orçamento
+  originalCurrency?: ForeignCurrency;
+  originalAmount?: Cents; // Na moeda original (centavos de dólar, de euro...)
+  exchangeRate?: number; // Reais por unidade da moeda, informado à mão
+  iofRate?: number; // Fração cobrada sobre a conversão (0.035 = 3,5%); ausente = sem IOF
+  externalId?: string; // Id estável do banco (ofx:ACCTID:FITID), impede duplicar reimportações
+  deletedAt?: number; // Na lixeira desde (ms); ausente = ativo
+  searchTokens?: string[]; // Palavras normalizadas da descrição, mantidas pelo db.ts para a busca
+}
+
+export type RecurrenceFrequency = 'MONTHLY' | 'YEARLY';
+
+export interface RecurringRule {
+  id: string;
+  description: string;
+  amount: Cents;
+  accountId: string;
+  method: PaymentMethod;
+  category: string;
+  dayOfMonth: number; // 1-31, limitado ao tamanho do mês
+  startMonth: string; // YYYY-MM
+  endMonth?: string; // YYYY-MM inclusivo; ausente = sem fim
+  frequency: RecurrenceFrequency; // YEARLY repete no mês de startMonth
+  autoConfirm: boolean; // false = ocorrência fica pendente até ser confirmada
+  skippedMonths: string[]; // Ocorrências puladas ou apagadas (YYYY-MM)
+  createdAt: number;
+  updatedAt?: number; // Última gravação (ms); ausente = createdAt
 }
 
 export interface MonthlyBudget {
   month: string; // YYYY-MM
-  limit: number;
+  limit: Cents;
+  categoryLimits?: Record<string, Cents>; // Category.id -> limite do mês
+  updatedAt?: number; // Última gravação (ms)
+}
+
+export interface AppSettings {
+  balanceMode: boolean; // true = saldo do mês é receitas - gastos
+  authorName: string; // Quem está usando o aparelho; vai para o histórico de alterações
+  exchangeRates: Partial<Record<ForeignCurrency, number>>; // Última cotação usada por moeda, sugerida no formulário
+  iofRate: number; // IOF sugerido para compras internacionais no crédito (fração)
 }
 
 export interface BackupData {
@@ -20,4 +103,32 @@ export interface BackupData {
   timestamp: number;
   transactions: Transaction[];
   budgets: MonthlyBudget[];
+  categories?: Category[]; // Ausente em backups antigos (version 1)
+  accounts?: Account[]; // Ausente em backups anteriores à version 6
+  cards?: Pick<Account, 'id' | 'name' | 'closingDay' | 'dueDay' | 'createdAt'>[]; // Versions 3-5, migrados para accounts
+  recurringRules?: RecurringRule[]; // Ausente em backups anteriores à version 4
+  settings?: Partial<AppSettings>; // Ausente em backups anteriores à version 5
+}
+
+export type SnapshotReason = 'DAILY' | 'MANUAL' | 'BEFORE_CLEAR' | 'BEFORE_RESTORE' | 'BEFORE_MERGE';
+
+// Ponto de restauração: cópia completa do banco guardada no próprio IndexedDB
+export interface Snapshot {
+  id: string;
+  createdAt: number;
+  reason: SnapshotReason;
+  data: BackupData; // Mesmo formato do exportDatabase
+}
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'PURGE' | 'REVERT';
+
+// Registro do histórico de alterações: nunca é editado; só é apagado ao restaurar um backup
+export interface AuditEntry {
+  id: string;
+  transactionId: string;
+  action: AuditAction; // DELETE = foi para a lixeira; PURGE = excluído de vez
+  timestamp: number;
+  author?: string; // Preferência authorName no momento da gravação
+  before?: Transaction; // Ausente em CREATE
+  after?: Transaction; // Ausente em PURGE
 }
\ No newline at end of file